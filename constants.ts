@@ -2,3 +2,41 @@
 export const CHESS_MODULE_ADDRESS =
   process.env.NEXT_PUBLIC_CHESS_MODULE_ADDRESS ||
   "0x606d3f41ad39e7931eacfaa9035617a48ecfbe4074e2da73ed1faefe8b129e45";
+
+// Run against the in-browser simulator of the chess module instead of the
+// Movement SDK (set NEXT_PUBLIC_CHESS_SIMULATOR=true)
+export const USE_LOCAL_SIMULATOR =
+  process.env.NEXT_PUBLIC_CHESS_SIMULATOR === "true";
+
+// Make the simulator's make_move abort with ARITHMETIC_ERROR where the
+// contract's AI search would (set NEXT_PUBLIC_CHESS_SIMULATOR_STRICT=true)
+export const SIMULATOR_STRICT_ARITHMETIC =
+  process.env.NEXT_PUBLIC_CHESS_SIMULATOR_STRICT === "true";
+
+// Wallet address reported while the simulator is active
+export const SIMULATOR_PLAYER_ADDRESS =
+  "0x00000000000000000000000000000000000000000000000000000000000000a1";
+
+// Network the app talks to, used for explorer links
+export const CHESS_NETWORK =
+  process.env.NEXT_PUBLIC_CHESS_NETWORK || "testnet";
+
+// Explorer transaction page per network; {hash} is replaced with the hash.
+// NEXT_PUBLIC_EXPLORER_TX_URL overrides the entry for CHESS_NETWORK.
+export const EXPLORER_TX_URLS: Record<string, string> = {
+  mainnet: "https://explorer.movementnetwork.xyz/txn/{hash}?network=mainnet",
+  testnet: "https://explorer.movementnetwork.xyz/txn/{hash}?network=bardock+testnet",
+  ...(process.env.NEXT_PUBLIC_EXPLORER_TX_URL && {
+    [process.env.NEXT_PUBLIC_CHESS_NETWORK || "testnet"]: process.env.NEXT_PUBLIC_EXPLORER_TX_URL,
+  }),
+};
+
+// Fullnode REST API per network, used for view calls when no wallet is
+// connected. NEXT_PUBLIC_CHESS_NODE_URL overrides the entry for CHESS_NETWORK.
+export const NODE_URLS: Record<string, string> = {
+  mainnet: "https://mainnet.movementnetwork.xyz/v1",
+  testnet: "https://testnet.bardock.movementnetwork.xyz/v1",
+  ...(process.env.NEXT_PUBLIC_CHESS_NODE_URL && {
+    [process.env.NEXT_PUBLIC_CHESS_NETWORK || "testnet"]: process.env.NEXT_PUBLIC_CHESS_NODE_URL,
+  }),
+};
@@ -0,0 +1,125 @@
+'use client';
+
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from 'movement-design-system';
+import { ChessBoard } from '../../../components/ChessBoard';
+import { DesyncReport } from '../../../components/DesyncReport';
+import { GameInfo } from '../../../components/GameInfo';
+import { HistoryControls } from '../../../components/HistoryControls';
+import { useChessSDK } from '../../../hooks/useChessSDK';
+import { useSpectatedGame } from '../../../hooks/useSpectatedGame';
+import { useHistoryNavigation } from '../../../hooks/useHistoryNavigation';
+import { formatAddress, isAccountAddress } from '../../../utils/chess';
+import { isKingInCheck } from '../../../utils/rules';
+import type { ChessMove } from '../../../types/chess';
+
+const NO_MOVES: ChessMove[] = [];
+
+export default function SpectatePage() {
+  const router = useRouter();
+  const params = useParams<{ address: string }>();
+  const player = decodeURIComponent(params.address ?? '');
+  const isValidAddress = isAccountAddress(player);
+
+  const { viewSdk, address } = useChessSDK();
+  const { gameState, hasGame, isLoading, error, desync, lastUpdated, refresh } = useSpectatedGame(
+    viewSdk,
+    isValidAddress ? player : null
+  );
+  const history = useHistoryNavigation(gameState?.moves ?? NO_MOVES);
+
+  const isOwnGame = !!address && address.toLowerCase() === player.toLowerCase();
+  // The live position comes with is_in_check; earlier plies are worked out locally
+  const isInCheck = history.isViewingLatest
+    ? gameState?.isInCheck ?? false
+    : isKingInCheck(history.position, history.position.isWhiteTurn);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-6">
+          <h1 className="text-2xl font-bold text-white">Watching</h1>
+          <p className="text-sm text-gray-400 font-mono">{isValidAddress ? formatAddress(player, 8) : player}</p>
+          {lastUpdated !== null && (
+            <p className="mt-1 text-xs text-gray-500">
+              <span className="inline-block w-2 h-2 mr-1 rounded-full bg-green-500 animate-pulse" />
+              Live, updated {new Date(lastUpdated).toLocaleTimeString()}
+            </p>
+          )}
+        </div>
+
+        {!isValidAddress ? (
+          <div className="p-8 text-center text-red-300">That doesn&apos;t look like an account address</div>
+        ) : isLoading ? (
+          <div className="p-8 text-center text-gray-400">Loading game...</div>
+        ) : desync ? (
+          <DesyncReport error={desync} onRetry={refresh} />
+        ) : !hasGame || !gameState ? (
+          <div className="p-8 text-center text-gray-400">
+            {error ? `Could not load the game: ${error}` : 'This player has no game right now'}
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <ChessBoard
+                board={history.position.board}
+                selectedSquare={null}
+                highlightedMoves={[]}
+                lastMove={history.lastMove}
+                whiteKingPos={history.position.whiteKingPos}
+                blackKingPos={history.position.blackKingPos}
+                isInCheck={isInCheck}
+                isWhiteTurn={history.position.isWhiteTurn}
+                disabled
+                onSquareClick={() => {}}
+                promotionPending={null}
+                onPromotion={() => {}}
+              />
+              <HistoryControls
+                ply={history.ply}
+                latestPly={history.latestPly}
+                onFirst={history.goFirst}
+                onPrev={history.goPrev}
+                onNext={history.goNext}
+                onLast={history.goLast}
+              />
+              {error && (
+                <p className="mt-2 text-center text-xs text-red-300">Update failed, retrying: {error}</p>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <GameInfo
+                status={gameState.status}
+                isWhiteTurn={gameState.isWhiteTurn}
+                moveCount={gameState.moveCount}
+                isInCheck={gameState.isInCheck}
+                moves={gameState.moves}
+                viewedPly={history.ply}
+                onSelectPly={history.goToPly}
+                isSpectating={!isOwnGame}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-center gap-3">
+          {isOwnGame && (
+            <Button variant="default" color="green" onClick={() => router.push('/')}>
+              Play this game
+            </Button>
+          )}
+          {isValidAddress && (
+            <Button variant="outline" onClick={() => router.push(`/player/${player}`)}>
+              View Profile
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => router.push('/leaderboard')}>
+            Back to Leaderboard
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useMemo, useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from 'movement-design-system';
+import { ChessBoard } from '../../components/ChessBoard';
+import { GameInfo } from '../../components/GameInfo';
+import { HistoryControls } from '../../components/HistoryControls';
+import { useChessSDK } from '../../hooks/useChessSDK';
+import { useArchivedGames } from '../../hooks/useArchivedGames';
+import { useHistoryNavigation } from '../../hooks/useHistoryNavigation';
+import { getArchiveResult } from '../../utils/archive';
+import { isKingInCheck } from '../../utils/rules';
+import { toPGN, getPGNFilename } from '../../utils/pgn';
+import { downloadFile } from '../../utils/download';
+import type { ChessMove } from '../../types/chess';
+import type { ArchiveResult, ArchivedGame } from '../../types/archive';
+
+type ResultFilter = 'all' | ArchiveResult;
+
+const FILTERS: { value: ResultFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'won', label: 'Won' },
+  { value: 'lost', label: 'Lost' },
+  { value: 'drawn', label: 'Drawn' },
+  { value: 'unfinished', label: 'Unfinished' },
+];
+
+const RESULT_STYLES: Record<ArchiveResult, { label: string; className: string }> = {
+  won: { label: 'Won', className: 'bg-green-600/30 text-green-300' },
+  lost: { label: 'Lost', className: 'bg-red-600/30 text-red-300' },
+  drawn: { label: 'Drawn', className: 'bg-yellow-600/30 text-yellow-300' },
+  unfinished: { label: 'Unfinished', className: 'bg-gray-600/40 text-gray-300' },
+};
+
+const NO_MOVES: ChessMove[] = [];
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default function MyGamesPage() {
+  const router = useRouter();
+  const { address } = useChessSDK();
+  const { games, isLoading, error, remove } = useArchivedGames(address);
+  const [filter, setFilter] = useState<ResultFilter>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const filteredGames = useMemo(
+    () => (filter === 'all' ? games : games.filter(game => getArchiveResult(game) === filter)),
+    [games, filter]
+  );
+
+  const selected = games.find(game => game.id === selectedId) ?? null;
+  const history = useHistoryNavigation(selected?.game.moves ?? NO_MOVES);
+
+  const handleExport = useCallback((game: ArchivedGame) => {
+    const date = new Date(game.archivedAt);
+    downloadFile(getPGNFilename(game.address, date), toPGN(game.game, game.address, date), 'application/x-chess-pgn');
+  }, []);
+
+  // One PGN file with every game in the current filter
+  const handleExportAll = useCallback(() => {
+    if (!address || filteredGames.length === 0) return;
+    const pgn = filteredGames.map(game => toPGN(game.game, game.address, new Date(game.archivedAt))).join('\n');
+    downloadFile(`chess-${address.slice(0, 8)}-archive.pgn`, pgn, 'application/x-chess-pgn');
+  }, [address, filteredGames]);
+
+  const handleDelete = useCallback(async (id: string) => {
+    if (!window.confirm('Delete this game from the archive on this device?')) return;
+    if (selectedId === id) setSelectedId(null);
+    await remove(id);
+  }, [remove, selectedId]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-4">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-6">
+          <h1 className="text-2xl font-bold text-white">My Games</h1>
+          <p className="text-sm text-gray-400">Games saved on this device</p>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          {/* Game list */}
+          <div className="bg-gray-800/50 rounded-xl border border-gray-700/50 overflow-hidden">
+            <div className="p-4 border-b border-gray-700/50 flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-1">
+                {FILTERS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setFilter(value)}
+                    className={`px-2 py-1 rounded text-sm ${
+                      filter === value ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-gray-200'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {filteredGames.length > 0 && (
+                <button onClick={handleExportAll} className="text-sm text-blue-400 hover:text-blue-300 underline">
+                  Export all (PGN)
+                </button>
+              )}
+            </div>
+
+            {!address ? (
+              <div className="p-8 text-center text-gray-400">Connect your wallet to see your games</div>
+            ) : isLoading ? (
+              <div className="p-8 text-center text-gray-400">Loading...</div>
+            ) : error ? (
+              <div className="p-8 text-center text-red-300">Could not read the archive: {error}</div>
+            ) : filteredGames.length > 0 ? (
+              <ul className="divide-y divide-gray-700/50 max-h-[32rem] overflow-y-auto">
+                {filteredGames.map(game => {
+                  const result = RESULT_STYLES[getArchiveResult(game)];
+                  return (
+                    <li key={game.id}>
+                      <button
+                        onClick={() => {
+                          setSelectedId(game.id);
+                          history.goLast();
+                        }}
+                        className={`w-full flex items-center justify-between p-4 text-left ${
+                          game.id === selectedId ? 'bg-blue-900/20' : 'hover:bg-gray-700/30'
+                        }`}
+                      >
+                        <div>
+                          <div className="text-white text-sm">{formatDate(game.archivedAt)}</div>
+                          <div className="text-xs text-gray-400">
+                            {game.game.moves.length} plies
+                            {game.reason === 'replaced' && ' · replaced by a new game'}
+                          </div>
+                        </div>
+                        <span className={`px-2 py-0.5 rounded text-xs ${result.className}`}>{result.label}</span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <div className="p-8 text-center text-gray-400">
+                {games.length === 0 ? 'No archived games yet' : 'No games match this filter'}
+              </div>
+            )}
+          </div>
+
+          {/* Replay */}
+          <div className="space-y-4">
+            {selected ? (
+              <>
+                <ChessBoard
+                  board={history.position.board}
+                  selectedSquare={null}
+                  highlightedMoves={[]}
+                  lastMove={history.lastMove}
+                  whiteKingPos={history.position.whiteKingPos}
+                  blackKingPos={history.position.blackKingPos}
+                  isInCheck={isKingInCheck(history.position, history.position.isWhiteTurn)}
+                  isWhiteTurn={history.position.isWhiteTurn}
+                  disabled
+                  onSquareClick={() => {}}
+                  promotionPending={null}
+                  onPromotion={() => {}}
+                />
+                <HistoryControls
+                  ply={history.ply}
+                  latestPly={history.latestPly}
+                  onFirst={history.goFirst}
+                  onPrev={history.goPrev}
+                  onNext={history.goNext}
+                  onLast={history.goLast}
+                />
+                <GameInfo
+                  status={selected.game.status}
+                  isWhiteTurn={selected.game.isWhiteTurn}
+                  moveCount={selected.game.moveCount}
+                  isInCheck={selected.game.isInCheck}
+                  moves={selected.game.moves}
+                  viewedPly={history.ply}
+                  onSelectPly={history.goToPly}
+                />
+                <div className="flex gap-3 justify-center">
+                  <Button variant="outline" onClick={() => handleExport(selected)}>
+                    Download PGN
+                  </Button>
+                  <Button variant="outline" onClick={() => handleDelete(selected.id)}>
+                    Delete
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="aspect-square bg-gray-800/50 rounded-xl flex items-center justify-center border border-gray-700/50">
+                <p className="text-gray-400">Select a game to replay it</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Back button */}
+        <div className="mt-6 flex justify-center">
+          <Button variant="outline" onClick={() => router.push('/')}>
+            Back to Game
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
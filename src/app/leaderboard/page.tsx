@@ -1,71 +1,64 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from 'movement-design-system';
-import { useMovementSDK } from '@movement-labs/miniapp-sdk';
-import { CHESS_MODULE_ADDRESS } from '../../../constants';
+import { useChessSDK } from '../../hooks/useChessSDK';
+import { useLeaderboard } from '../../hooks/useLeaderboard';
 import { formatAddress } from '../../utils/chess';
-import type { PlayerStats, LeaderboardEntry } from '../../types/chess';
+import { filterByAddress, LEADERBOARD_PAGE_SIZE } from '../../utils/leaderboard';
 
-export default function LeaderboardPage() {
-  const router = useRouter();
-  const { sdk, isConnected, address } = useMovementSDK();
-  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
-  const [playerStats, setPlayerStats] = useState<PlayerStats | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  const fetchLeaderboard = useCallback(async () => {
-    if (!sdk) return;
+const AUTO_REFRESH_MS = 30000;
 
-    try {
-      const lbResult = await sdk.view({
-        function: `${CHESS_MODULE_ADDRESS}::chess::get_leaderboard`,
-        type_arguments: [],
-        function_arguments: [],
-      });
-
-      const [addresses, points] = Array.isArray(lbResult) ? lbResult : [[], []];
-
-      const leaderboardEntries: LeaderboardEntry[] = (addresses as string[]).map(
-        (addr: string, idx: number) => ({
-          address: addr,
-          points: Number((points as string[])[idx] || 0),
-          rank: idx + 1,
-        })
-      );
+function RankChange({ change }: { change: number | null }) {
+  if (change === null) {
+    return <span className="w-8 text-xs font-semibold text-blue-400">NEW</span>;
+  }
+  if (change === 0) {
+    return <span className="w-8 text-xs text-gray-600">-</span>;
+  }
+  return (
+    <span
+      className={`w-8 text-xs font-semibold ${change > 0 ? 'text-green-400' : 'text-red-400'}`}
+      title={`${change > 0 ? 'Up' : 'Down'} ${Math.abs(change)} since your last visit`}
+    >
+      {change > 0 ? '▲' : '▼'}
+      {Math.abs(change)}
+    </span>
+  );
+}
 
-      setEntries(leaderboardEntries);
+export default function LeaderboardPage() {
+  const router = useRouter();
+  const { viewSdk: sdk, address } = useChessSDK();
+  const [autoRefresh, setAutoRefresh] = useState(true);
+  const { entries, playerStats, playerEntry, isLoading, isRefreshing, error, lastUpdated, refresh } = useLeaderboard(
+    sdk,
+    address,
+    { autoRefreshMs: autoRefresh ? AUTO_REFRESH_MS : 0 }
+  );
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(0);
 
-      if (address) {
-        const statsResult = await sdk.view({
-          function: `${CHESS_MODULE_ADDRESS}::chess::get_player_stats`,
-          type_arguments: [],
-          function_arguments: [address],
-        });
+  const filtered = useMemo(() => filterByAddress(entries, query), [entries, query]);
+  const pageCount = Math.max(1, Math.ceil(filtered.length / LEADERBOARD_PAGE_SIZE));
+  const visible = filtered.slice(page * LEADERBOARD_PAGE_SIZE, (page + 1) * LEADERBOARD_PAGE_SIZE);
 
-        const [wins, losses, draws, totalPoints, gamesPlayed] = Array.isArray(statsResult)
-          ? statsResult
-          : [0, 0, 0, 0, 0];
+  // Keep the page in range when a search or refresh shrinks the list
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [page, pageCount]);
 
-        setPlayerStats({
-          wins: Number(wins),
-          losses: Number(losses),
-          draws: Number(draws),
-          totalPoints: Number(totalPoints),
-          gamesPlayed: Number(gamesPlayed),
-        });
-      }
-    } catch (err) {
-      console.error('[Chess] Failed to fetch leaderboard:', err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [sdk, address]);
+  const handleSearch = (value: string) => {
+    setQuery(value);
+    setPage(0);
+  };
 
-  useEffect(() => {
-    fetchLeaderboard();
-  }, [fetchLeaderboard]);
+  const handleJumpToMe = () => {
+    if (!playerEntry) return;
+    setQuery('');
+    setPage(Math.floor((playerEntry.rank - 1) / LEADERBOARD_PAGE_SIZE));
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-4">
@@ -73,24 +66,63 @@ export default function LeaderboardPage() {
         {/* Header */}
         <div className="text-center mb-6">
           <h1 className="text-2xl font-bold text-white">Leaderboard</h1>
+          {lastUpdated !== null && (
+            <p className="text-xs text-gray-500">Updated {new Date(lastUpdated).toLocaleTimeString()}</p>
+          )}
         </div>
 
         {/* Leaderboard */}
         <div className="bg-gray-800/50 rounded-xl border border-gray-700/50 overflow-hidden">
-          <div className="p-4 border-b border-gray-700/50">
-            <h2 className="text-lg font-semibold text-white">Top Players</h2>
+          <div className="p-4 border-b border-gray-700/50 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-lg font-semibold text-white">Top Players</h2>
+              <div className="flex items-center gap-3 text-sm">
+                <label className="flex items-center gap-1 text-gray-400">
+                  <input type="checkbox" checked={autoRefresh} onChange={e => setAutoRefresh(e.target.checked)} />
+                  Auto
+                </label>
+                <button
+                  onClick={refresh}
+                  disabled={isRefreshing}
+                  className="text-blue-400 hover:text-blue-300 underline disabled:opacity-50"
+                >
+                  {isRefreshing ? 'Refreshing...' : 'Refresh'}
+                </button>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="search"
+                value={query}
+                onChange={e => handleSearch(e.target.value)}
+                placeholder="Search by address"
+                className="flex-1 px-3 py-1.5 rounded bg-gray-900/60 border border-gray-700 text-sm text-white font-mono placeholder-gray-500"
+              />
+              {playerEntry && (
+                <button
+                  onClick={handleJumpToMe}
+                  className="px-3 py-1.5 rounded bg-blue-900/40 text-sm text-blue-300 hover:bg-blue-900/60"
+                >
+                  My rank (#{playerEntry.rank})
+                </button>
+              )}
+            </div>
           </div>
 
           {isLoading ? (
             <div className="p-8 text-center text-gray-400">Loading...</div>
-          ) : entries.length > 0 ? (
+          ) : error && entries.length === 0 ? (
+            <div className="p-8 text-center text-red-300">Could not load the leaderboard: {error}</div>
+          ) : visible.length > 0 ? (
             <div className="divide-y divide-gray-700/50">
-              {entries.map((entry) => {
+              {visible.map((entry) => {
                 const isCurrentPlayer = address && entry.address.toLowerCase() === address.toLowerCase();
                 return (
-                  <div
+                  <button
                     key={entry.address}
-                    className={`flex items-center justify-between p-4 ${
+                    onClick={() => router.push(`/player/${entry.address}`)}
+                    title="View this player's profile"
+                    className={`w-full flex items-center justify-between p-4 text-left hover:bg-gray-700/30 ${
                       isCurrentPlayer ? 'bg-blue-900/20' : ''
                     }`}
                   >
@@ -108,6 +140,7 @@ export default function LeaderboardPage() {
                       >
                         {entry.rank}
                       </span>
+                      <RankChange change={entry.rankChange} />
                       <div>
                         <span className="text-white font-mono text-sm">
                           {formatAddress(entry.address)}
@@ -120,15 +153,40 @@ export default function LeaderboardPage() {
                     <span className="text-green-400 font-bold text-lg">
                       {entry.points.toLocaleString()}
                     </span>
-                  </div>
+                  </button>
                 );
               })}
             </div>
+          ) : entries.length > 0 ? (
+            <div className="p-8 text-center text-gray-400">No players match that address</div>
           ) : (
             <div className="p-8 text-center text-gray-400">
               No games played yet. Be the first!
             </div>
           )}
+
+          {/* Pagination */}
+          {pageCount > 1 && (
+            <div className="p-3 border-t border-gray-700/50 flex items-center justify-between text-sm">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                className="px-2 py-1 rounded text-gray-300 hover:text-white disabled:opacity-40"
+              >
+                Previous
+              </button>
+              <span className="text-gray-400">
+                Page {page + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount - 1}
+                className="px-2 py-1 rounded text-gray-300 hover:text-white disabled:opacity-40"
+              >
+                Next
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Player's own stats */}
@@ -1,28 +1,69 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from 'movement-design-system';
-import { useMovementSDK } from '@movement-labs/miniapp-sdk';
+import { useChessSDK } from '../hooks/useChessSDK';
 import { ChessBoard } from '../components/ChessBoard';
 import { GameInfo } from '../components/GameInfo';
+import { HistoryControls } from '../components/HistoryControls';
+import { MovePreview } from '../components/MovePreview';
+import { EvalBar } from '../components/EvalBar';
+import { AnalysisPanel } from '../components/AnalysisPanel';
+import { GameReview } from '../components/GameReview';
+import { TransactionDrawer } from '../components/TransactionDrawer';
+import { NewGameDialog } from '../components/NewGameDialog';
+import { DesyncReport } from '../components/DesyncReport';
 import { useChessGame } from '../hooks/useChessGame';
+import { useHistoryNavigation } from '../hooks/useHistoryNavigation';
+import { useEngine } from '../hooks/useEngine';
+import { useAnalysis } from '../hooks/useAnalysis';
+import { useGameReview } from '../hooks/useGameReview';
+import { useTransactions } from '../hooks/useTransactions';
+import { useArchivedGames } from '../hooks/useArchivedGames';
+import { useScoreProjection } from '../hooks/useScoreProjection';
+import { useNotationStyle } from '../hooks/useNotationStyle';
 import { isPromotionMove } from '../utils/chess';
+import {
+  getLegalSquares,
+  hasAnyLegalMove,
+  isInsufficientMaterial,
+  isKingInCheck,
+  positionFromGameState,
+  FIFTY_MOVE_HALF_MOVES,
+} from '../utils/rules';
+import { applyMove, createMove, replayMoves } from '../utils/replay';
+import { countRepetitions, repetitionsAfter } from '../utils/zobrist';
+import { buildArchiveStats } from '../utils/stats';
+import { formatMove } from '../utils/notation';
+import { toPGN, getPGNFilename } from '../utils/pgn';
+import { downloadFile } from '../utils/download';
 import { WHITE } from '../types/chess';
+import type { ChessMove } from '../types/chess';
+
+const NO_MOVES: ChessMove[] = [];
 
 export default function ChessPage() {
   const router = useRouter();
-  const { sdk, isConnected, address } = useMovementSDK();
+  const { sdk, isConnected, address, isSimulator } = useChessSDK();
   const {
     gameState,
     isLoading,
     isInitializing,
     error,
+    canRetry,
     hasGame,
+    pendingMove,
+    isAiReplying,
+    isCatchingUp,
+    desync,
+    drawClaim,
     startNewGame,
     makeMove,
     resign,
+    claimDraw,
     refreshGame,
+    retry,
   } = useChessGame(sdk, address);
 
   const [selectedSquare, setSelectedSquare] = useState<number | null>(null);
@@ -32,97 +73,132 @@ export default function ChessPage() {
     to: number;
   } | null>(null);
 
-  // Get last move for highlighting
-  const lastMove = gameState && gameState.moves.length > 0
-    ? {
-        from: gameState.moves[gameState.moves.length - 1].from_square,
-        to: gameState.moves[gameState.moves.length - 1].to_square,
+  const history = useHistoryNavigation(gameState?.moves ?? NO_MOVES);
+  const engine = useEngine();
+  const [notationStyle] = useNotationStyle();
+
+  // Engine results are tagged with the ply they were computed for
+  const [hint, setHint] = useState<{ move: ChessMove | null; error: string | null; ply: number } | null>(null);
+  const [isHintLoading, setIsHintLoading] = useState(false);
+  const [previewEnabled, setPreviewEnabled] = useState(false);
+  const [stagedMove, setStagedMove] = useState<ChessMove | null>(null);
+  const [reply, setReply] = useState<{ move: ChessMove | null; error: string | null } | null>(null);
+  const previewIdRef = useRef(0);
+  const [analysisEnabled, setAnalysisEnabled] = useState(false);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isTransactionsOpen, setIsTransactionsOpen] = useState(false);
+  const [isNewGameDialogOpen, setIsNewGameDialogOpen] = useState(false);
+  const transactions = useTransactions();
+
+  // Drop any selection when stepping back into the history
+  useEffect(() => {
+    if (!history.isViewingLatest) {
+      setSelectedSquare(null);
+      setHighlightedMoves([]);
+    }
+  }, [history.isViewingLatest]);
+
+  // Position with the en passant target derived from the move history
+  const position = useMemo(
+    () => (gameState ? positionFromGameState(gameState) : null),
+    [gameState]
+  );
+
+  // The streak bonus needs the win streak, which only the archive knows
+  const archive = useArchivedGames(address);
+  const { reload: reloadArchive } = archive;
+  const localStreak = useMemo(() => buildArchiveStats(archive.games).currentStreak, [archive.games]);
+  useEffect(() => {
+    reloadArchive();
+  }, [gameState?.status, reloadArchive]);
+
+  const scoreProjection = useScoreProjection(
+    sdk,
+    address,
+    gameState?.status ?? null,
+    gameState?.moveCount ?? 0,
+    localStreak
+  );
+
+  const repetitions = useMemo(
+    () => (gameState ? countRepetitions(gameState.moves) : null),
+    [gameState]
+  );
+
+  // Hints and previews only apply to the position they were computed for
+  const latestPly = gameState?.moves.length ?? 0;
+  useEffect(() => {
+    previewIdRef.current++;
+    setStagedMove(null);
+    setReply(null);
+  }, [latestPly]);
+
+  // Send the move, or stage it and predict the AI reply when previewing.
+  // Moves that repeat a position for the third time are always staged so
+  // the player sees the warning first.
+  const submitMove = useCallback(
+    async (from: number, to: number, promotion: number) => {
+      if (!gameState || !position) {
+        await makeMove(from, to, promotion);
+        return;
       }
-    : null;
 
-  // Simple client-side move validation for highlighting
-  // The actual validation happens on-chain
-  const getBasicLegalSquares = useCallback((from: number, board: number[]): number[] => {
-    const piece = board[from];
-    if (!piece) return [];
-
-    const pieceType = piece & 7;
-    const isWhite = (piece & 8) === WHITE;
-
-    // Only allow moves for white pieces on player's turn
-    if (!isWhite) return [];
-
-    const legalSquares: number[] = [];
-    const fromRow = Math.floor(from / 8);
-    const fromCol = from % 8;
-
-    // Add all potential target squares based on piece type
-    // This is simplified - the contract does full validation
-    for (let to = 0; to < 64; to++) {
-      if (to === from) continue;
-
-      const target = board[to];
-      const targetType = target & 7;
-      const targetIsWhite = (target & 8) === WHITE;
-
-      // Can't capture own pieces
-      if (targetType !== 0 && targetIsWhite) continue;
-
-      const toRow = Math.floor(to / 8);
-      const toCol = to % 8;
-      const rowDiff = Math.abs(toRow - fromRow);
-      const colDiff = Math.abs(toCol - fromCol);
-
-      let isValid = false;
-
-      switch (pieceType) {
-        case 1: // Pawn
-          if (isWhite) {
-            // Forward move
-            if (toCol === fromCol && targetType === 0) {
-              if (toRow === fromRow + 1) isValid = true;
-              if (fromRow === 1 && toRow === 3 && board[from + 8] === 0) isValid = true;
-            }
-            // Capture
-            if (toRow === fromRow + 1 && colDiff === 1 && targetType !== 0) {
-              isValid = true;
-            }
-          }
-          break;
-        case 2: // Knight
-          if ((rowDiff === 2 && colDiff === 1) || (rowDiff === 1 && colDiff === 2)) {
-            isValid = true;
-          }
-          break;
-        case 3: // Bishop
-          if (rowDiff === colDiff && rowDiff > 0) isValid = true;
-          break;
-        case 4: // Rook
-          if ((rowDiff === 0 || colDiff === 0) && (rowDiff + colDiff > 0)) isValid = true;
-          break;
-        case 5: // Queen
-          if (rowDiff === colDiff || rowDiff === 0 || colDiff === 0) {
-            if (rowDiff + colDiff > 0) isValid = true;
-          }
-          break;
-        case 6: // King
-          if (rowDiff <= 1 && colDiff <= 1 && (rowDiff + colDiff > 0)) isValid = true;
-          // Castling
-          if (rowDiff === 0 && colDiff === 2) isValid = true;
-          break;
+      const move = createMove(position, from, to, promotion);
+      const repeatsThirdTime = !!repetitions && repetitionsAfter(repetitions, applyMove(position, move)) >= 3;
+      if (!previewEnabled && !repeatsThirdTime) {
+        await makeMove(from, to, promotion);
+        return;
       }
 
-      if (isValid) {
-        legalSquares.push(to);
+      const previewId = ++previewIdRef.current;
+      setStagedMove(move);
+      setReply(null);
+
+      try {
+        const aiMove = await engine.previewReply(position, move, gameState.moveCount);
+        if (previewIdRef.current === previewId) setReply({ move: aiMove, error: null });
+      } catch (err) {
+        if (previewIdRef.current === previewId) {
+          setReply({ move: null, error: err instanceof Error ? err.message : 'Engine error' });
+        }
       }
-    }
+    },
+    [previewEnabled, gameState, position, repetitions, engine, makeMove]
+  );
 
-    return legalSquares;
+  const handleConfirmMove = useCallback(async () => {
+    if (!stagedMove) return;
+    await makeMove(stagedMove.from_square, stagedMove.to_square, stagedMove.promotion);
+    previewIdRef.current++;
+    setStagedMove(null);
+    setReply(null);
+  }, [stagedMove, makeMove]);
+
+  const handleCancelMove = useCallback(() => {
+    previewIdRef.current++;
+    setStagedMove(null);
+    setReply(null);
   }, []);
 
+  const handleHint = useCallback(async () => {
+    if (!position) return;
+
+    const ply = latestPly;
+    setIsHintLoading(true);
+    try {
+      const move = await engine.suggestMove(position);
+      setHint(move ? { move, error: null, ply } : null);
+    } catch (err) {
+      setHint({ move: null, error: err instanceof Error ? err.message : 'Engine error', ply });
+    } finally {
+      setIsHintLoading(false);
+    }
+  }, [position, latestPly, engine]);
+
   const handleSquareClick = useCallback(
     async (square: number) => {
-      if (!gameState) return;
+      if (!gameState || !position) return;
+      if (!history.isViewingLatest) return;
       if (gameState.status !== 'active') return;
       if (!gameState.isWhiteTurn) return;
 
@@ -137,8 +213,7 @@ export default function ChessPage() {
         if (pieceColor !== WHITE) return; // Can only select white pieces
 
         setSelectedSquare(square);
-        const moves = getBasicLegalSquares(square, board);
-        setHighlightedMoves(moves);
+        setHighlightedMoves(getLegalSquares(position, square));
       } else {
         // Attempting to move
         if (highlightedMoves.includes(square)) {
@@ -146,7 +221,7 @@ export default function ChessPage() {
           if (isPromotionMove(board, selectedSquare, square)) {
             setPromotionPending({ from: selectedSquare, to: square });
           } else {
-            await makeMove(selectedSquare, square, 0);
+            await submitMove(selectedSquare, square, 0);
           }
         }
 
@@ -155,24 +230,95 @@ export default function ChessPage() {
         setHighlightedMoves([]);
       }
     },
-    [gameState, selectedSquare, highlightedMoves, makeMove, getBasicLegalSquares]
+    [gameState, position, history.isViewingLatest, selectedSquare, highlightedMoves, submitMove]
   );
 
   const handlePromotion = useCallback(
     async (pieceType: number) => {
       if (!promotionPending) return;
 
-      await makeMove(promotionPending.from, promotionPending.to, pieceType);
       setPromotionPending(null);
       setSelectedSquare(null);
       setHighlightedMoves([]);
+      await submitMove(promotionPending.from, promotionPending.to, pieceType);
+    },
+    [promotionPending, submitMove]
+  );
+
+  // new_game throws away an active game, so confirm first
+  const handleNewGame = useCallback(() => {
+    if (hasGame && gameState?.status === 'active') {
+      setIsNewGameDialogOpen(true);
+      return;
+    }
+    startNewGame();
+  }, [hasGame, gameState, startNewGame]);
+
+  const handleConfirmNewGame = useCallback(
+    async (resignFirst: boolean) => {
+      setIsNewGameDialogOpen(false);
+      await startNewGame({ resignFirst });
     },
-    [promotionPending, makeMove]
+    [startNewGame]
   );
 
+  const handleDownloadPGN = useCallback(() => {
+    if (!gameState || !address) return;
+
+    const now = new Date();
+    downloadFile(
+      getPGNFilename(address, now),
+      toPGN(gameState, address, now),
+      'application/x-chess-pgn'
+    );
+  }, [gameState, address]);
+
   const isGameActive = gameState?.status === 'active';
   const isPlayerTurn = gameState?.isWhiteTurn ?? true;
-  const canPlay = isConnected && isGameActive && isPlayerTurn && !isLoading;
+  const canPlay = isConnected && isGameActive && isPlayerTurn && !isLoading && !isCatchingUp && history.isViewingLatest && !stagedMove;
+
+  const currentHint = hint && hint.ply === latestPly && history.isViewingLatest ? hint : null;
+  const hintMove = currentHint?.move ?? null;
+  const hintText = hintMove && position ? formatMove(position, hintMove, notationStyle) : null;
+
+  // Position after the staged move, before the AI answers
+  const previewPosition = useMemo(
+    () => (stagedMove && position ? applyMove(position, stagedMove) : null),
+    [stagedMove, position]
+  );
+
+  // Mirrors update_game_status: no reply is played if the move ends the game
+  const previewEndsGame = useMemo(() => {
+    if (!previewPosition || !stagedMove || !gameState) return false;
+    return !hasAnyLegalMove(previewPosition, false)
+      || isInsufficientMaterial(previewPosition.board)
+      || replayMoves([...gameState.moves, stagedMove]).halfMoveClock >= FIFTY_MOVE_HALF_MOVES;
+  }, [previewPosition, stagedMove, gameState]);
+
+  const previewRepetitions = previewPosition && repetitions ? repetitionsAfter(repetitions, previewPosition) : 0;
+
+  const replyText = reply?.move && previewPosition
+    ? formatMove(
+      previewPosition,
+      createMove(previewPosition, reply.move.from_square, reply.move.to_square, reply.move.promotion),
+      notationStyle
+    )
+    : null;
+
+  // The latest ply comes straight from the chain; earlier plies are replayed
+  const viewedPosition = gameState && history.isViewingLatest ? gameState : history.position;
+  const viewedInCheck = gameState && history.isViewingLatest
+    ? gameState.isInCheck
+    : isKingInCheck(history.position, history.position.isWhiteTurn);
+
+  const boardPosition = previewPosition ?? viewedPosition;
+
+  // Analysis follows the viewed ply, live or from the history
+  const analysisPosition = history.isViewingLatest ? position : history.position;
+  const engineAnalysis = useAnalysis(gameState ? analysisPosition : null, analysisEnabled);
+
+  const showReview = isReviewOpen && !!gameState && !isGameActive;
+  const gameReview = useGameReview(gameState?.moves ?? NO_MOVES, gameState?.status ?? 'active', showReview);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-4">
@@ -183,6 +329,11 @@ export default function ChessPage() {
           <p className="text-gray-400">
             Play against the AI - all moves verified on-chain
           </p>
+          {isSimulator && (
+            <span className="inline-block mt-2 px-2 py-0.5 rounded bg-yellow-600/20 text-yellow-400 text-xs">
+              Local simulator - no transactions are sent
+            </span>
+          )}
         </div>
 
         {/* Main content */}
@@ -202,12 +353,14 @@ export default function ChessPage() {
                   <p className="text-gray-400">Loading game...</p>
                 </div>
               </div>
+            ) : desync ? (
+              <DesyncReport error={desync} onRetry={refreshGame} />
             ) : !hasGame ? (
               <div className="aspect-square bg-gray-800/50 rounded-xl flex items-center justify-center border border-gray-700/50">
                 <div className="text-center">
                   <p className="text-gray-400 mb-4">No active game</p>
                   <Button
-                    onClick={startNewGame}
+                    onClick={handleNewGame}
                     disabled={isLoading}
                     variant="default"
                     color="green"
@@ -218,27 +371,75 @@ export default function ChessPage() {
                 </div>
               </div>
             ) : gameState ? (
-              <ChessBoard
-                board={gameState.board}
-                selectedSquare={selectedSquare}
-                highlightedMoves={highlightedMoves}
-                lastMove={lastMove}
-                whiteKingPos={gameState.whiteKingPos}
-                blackKingPos={gameState.blackKingPos}
-                isInCheck={gameState.isInCheck}
-                isWhiteTurn={gameState.isWhiteTurn}
-                disabled={!canPlay}
-                onSquareClick={handleSquareClick}
-                promotionPending={promotionPending}
-                onPromotion={handlePromotion}
-              />
+              <>
+                <div className="flex gap-2">
+                  {analysisEnabled && (
+                    <EvalBar
+                      score={engineAnalysis.lastScore}
+                      isAnalyzing={engineAnalysis.isAnalyzing}
+                    />
+                  )}
+                  <div className="flex-1">
+                    <ChessBoard
+                      board={boardPosition.board}
+                      selectedSquare={selectedSquare}
+                      highlightedMoves={highlightedMoves}
+                      lastMove={stagedMove ? { from: stagedMove.from_square, to: stagedMove.to_square } : history.lastMove}
+                      hintMove={hintMove && { from: hintMove.from_square, to: hintMove.to_square }}
+                      replyMove={reply?.move && !previewEndsGame ? { from: reply.move.from_square, to: reply.move.to_square } : null}
+                      pendingSquare={history.isViewingLatest ? pendingMove?.to_square : null}
+                      whiteKingPos={boardPosition.whiteKingPos}
+                      blackKingPos={boardPosition.blackKingPos}
+                      isInCheck={!previewPosition && viewedInCheck}
+                      isWhiteTurn={boardPosition.isWhiteTurn}
+                      disabled={!canPlay}
+                      onSquareClick={handleSquareClick}
+                      promotionPending={promotionPending}
+                      onPromotion={handlePromotion}
+                    />
+                  </div>
+                </div>
+                <HistoryControls
+                  ply={history.ply}
+                  latestPly={history.latestPly}
+                  onFirst={history.goFirst}
+                  onPrev={history.goPrev}
+                  onNext={history.goNext}
+                  onLast={history.goLast}
+                />
+                {hintText && (
+                  <p className="mt-2 text-center text-sm text-sky-300">
+                    Hint: <span className="font-mono">{hintText}</span>
+                  </p>
+                )}
+                {currentHint?.error && (
+                  <p className="mt-2 text-center text-sm text-red-300">
+                    Could not compute a hint: {currentHint.error}
+                  </p>
+                )}
+                {stagedMove && position && (
+                  <MovePreview
+                    moveText={formatMove(position, stagedMove, notationStyle)}
+                    replyText={replyText}
+                    endsGame={previewEndsGame}
+                    isComputing={!reply}
+                    error={reply?.error ?? null}
+                    isSubmitting={isLoading}
+                    warning={previewRepetitions >= 3
+                      ? `This move repeats the position for the ${previewRepetitions === 3 ? 'third' : `${previewRepetitions}th`} time`
+                      : null}
+                    onConfirm={handleConfirmMove}
+                    onCancel={handleCancelMove}
+                  />
+                )}
+              </>
             ) : null}
 
             {/* Game controls */}
             {isConnected && !isInitializing && (
               <div className="mt-4 flex flex-wrap gap-3 justify-center">
                 <Button
-                  onClick={startNewGame}
+                  onClick={handleNewGame}
                   disabled={isLoading}
                   variant="default"
                   color="green"
@@ -256,6 +457,53 @@ export default function ChessPage() {
                   </Button>
                 )}
 
+                {hasGame && isGameActive && drawClaim?.canClaim && (
+                  <Button
+                    onClick={claimDraw}
+                    disabled={isLoading || pendingMove !== null}
+                    variant="outline"
+                  >
+                    Claim Draw
+                  </Button>
+                )}
+
+                {hasGame && isGameActive && (
+                  <Button
+                    onClick={handleHint}
+                    disabled={!canPlay || isHintLoading}
+                    variant="outline"
+                  >
+                    {isHintLoading ? 'Thinking...' : 'Hint'}
+                  </Button>
+                )}
+
+                {hasGame && isGameActive && (
+                  <Button
+                    onClick={() => setPreviewEnabled(enabled => !enabled)}
+                    variant="outline"
+                  >
+                    {previewEnabled ? 'Preview: On' : 'Preview: Off'}
+                  </Button>
+                )}
+
+                {gameState && !isGameActive && gameState.moves.length > 0 && (
+                  <Button
+                    onClick={() => setIsReviewOpen(open => !open)}
+                    variant="outline"
+                  >
+                    {isReviewOpen ? 'Hide Review' : 'Review Game'}
+                  </Button>
+                )}
+
+                {gameState && gameState.moves.length > 0 && (
+                  <Button
+                    onClick={handleDownloadPGN}
+                    variant="outline"
+                  >
+                    Download PGN
+                  </Button>
+                )}
+
                 <Button
                   onClick={() => router.push('/leaderboard')}
                   variant="outline"
@@ -264,11 +512,24 @@ export default function ChessPage() {
                 </Button>
 
                 <Button
-                  onClick={refreshGame}
-                  disabled={isLoading}
+                  onClick={() => router.push('/games')}
+                  variant="outline"
+                >
+                  My Games
+                </Button>
+
+                <Button
+                  onClick={() => router.push('/stats')}
+                  variant="outline"
+                >
+                  Stats
+                </Button>
+
+                <Button
+                  onClick={() => setIsTransactionsOpen(true)}
                   variant="outline"
                 >
-                  Refresh
+                  Transactions{transactions.length > 0 ? ` (${transactions.length})` : ''}
                 </Button>
               </div>
             )}
@@ -277,8 +538,31 @@ export default function ChessPage() {
             {error && (
               <div className="mt-4 p-3 bg-red-900/50 border border-red-500/50 rounded-lg text-red-200 text-sm text-center">
                 {error}
+                {canRetry && (
+                  <button
+                    onClick={retry}
+                    disabled={isLoading}
+                    className="ml-2 underline text-red-100 hover:text-white disabled:opacity-50"
+                  >
+                    Try again
+                  </button>
+                )}
               </div>
             )}
+
+            {/* Post-game review */}
+            {showReview && gameState && (
+              <GameReview
+                moves={gameState.moves}
+                review={gameReview.review}
+                progress={gameReview.progress}
+                isRunning={gameReview.isRunning}
+                error={gameReview.error}
+                selectedPly={history.ply}
+                onSelectPly={history.goToPly}
+                onClose={() => setIsReviewOpen(false)}
+              />
+            )}
           </div>
 
           {/* Side panel */}
@@ -290,6 +574,30 @@ export default function ChessPage() {
                 moveCount={gameState.moveCount}
                 isInCheck={gameState.isInCheck}
                 moves={gameState.moves}
+                viewedPly={history.ply}
+                onSelectPly={history.goToPly}
+                isMovePending={pendingMove !== null}
+                isAiReplying={isAiReplying}
+                isCatchingUp={isCatchingUp}
+                drawClaim={drawClaim}
+                repetitionCount={repetitions?.currentCount}
+                scoreProjections={scoreProjection.projections}
+                currentRank={scoreProjection.currentRank}
+                isStreakEstimated={scoreProjection.isStreakEstimated}
+              />
+            )}
+
+            {!isInitializing && gameState && analysisPosition && (
+              <AnalysisPanel
+                enabled={analysisEnabled}
+                position={analysisPosition}
+                ply={history.ply}
+                analysis={engineAnalysis.analysis}
+                isAnalyzing={engineAnalysis.isAnalyzing}
+                error={engineAnalysis.error}
+                onToggle={() => setAnalysisEnabled(enabled => !enabled)}
+                onCancel={engineAnalysis.cancel}
+                onRestart={engineAnalysis.restart}
               />
             )}
 
@@ -302,6 +610,8 @@ export default function ChessPage() {
                   <li>• Click a piece to select, click destination to move</li>
                   <li>• Green dots show legal moves</li>
                   <li>• AI responds automatically after your move</li>
+                  <li>• Use ← → or click a move to review the game</li>
+                  <li>• Hint suggests a move; Preview shows the AI reply before you sign</li>
                   <li>• Win to earn points for the leaderboard!</li>
                 </ul>
               </div>
@@ -312,10 +622,27 @@ export default function ChessPage() {
         {/* Footer */}
         {address && (
           <div className="mt-6 text-center text-xs text-gray-500 font-mono">
-            Connected: {address.slice(0, 8)}...{address.slice(-6)}
+            Connected:{' '}
+            <button onClick={() => router.push(`/player/${address}`)} className="hover:text-gray-300 underline">
+              {address.slice(0, 8)}...{address.slice(-6)}
+            </button>
           </div>
         )}
       </div>
+
+      <NewGameDialog
+        isOpen={isNewGameDialogOpen}
+        moveCount={gameState?.moveCount ?? 0}
+        isLoading={isLoading}
+        onResignAndStart={() => handleConfirmNewGame(true)}
+        onStart={() => handleConfirmNewGame(false)}
+        onCancel={() => setIsNewGameDialogOpen(false)}
+      />
+
+      <TransactionDrawer
+        isOpen={isTransactionsOpen}
+        onClose={() => setIsTransactionsOpen(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,173 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from 'movement-design-system';
+import { ChessBoard } from '../../../components/ChessBoard';
+import { StatTile } from '../../../components/StatTile';
+import { useChessSDK } from '../../../hooks/useChessSDK';
+import { useLeaderboard } from '../../../hooks/useLeaderboard';
+import { useSpectatedGame } from '../../../hooks/useSpectatedGame';
+import { formatAddress, isAccountAddress } from '../../../utils/chess';
+import { getRankNeighbours } from '../../../utils/leaderboard';
+import { LEADERBOARD_SIZE } from '../../../utils/scoring';
+
+function formatGap(gap: number): string {
+  return `${gap.toLocaleString()} ${gap === 1 ? 'point' : 'points'}`;
+}
+
+export default function PlayerPage() {
+  const router = useRouter();
+  const params = useParams<{ address: string }>();
+  const player = decodeURIComponent(params.address ?? '');
+  const isValidAddress = isAccountAddress(player);
+  const target = isValidAddress ? player : null;
+
+  const { viewSdk, address } = useChessSDK();
+  const leaderboard = useLeaderboard(viewSdk, target);
+  const { gameState, hasGame, isLoading: isGameLoading, desync } = useSpectatedGame(viewSdk, target);
+
+  const stats = leaderboard.playerStats;
+  const rank = leaderboard.playerEntry;
+  const neighbours = useMemo(
+    () => (target ? getRankNeighbours(leaderboard.entries, target) : null),
+    [leaderboard.entries, target]
+  );
+
+  const lastMove = gameState?.moves.length
+    ? {
+        from: gameState.moves[gameState.moves.length - 1].from_square,
+        to: gameState.moves[gameState.moves.length - 1].to_square,
+      }
+    : null;
+
+  const isOwnProfile = !!address && address.toLowerCase() === player.toLowerCase();
+  const winRate = stats && stats.gamesPlayed > 0 ? Math.round((stats.wins / stats.gamesPlayed) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-white">
+            Player{isOwnProfile && <span className="ml-2 text-base text-blue-400">(You)</span>}
+          </h1>
+          <p className="text-sm text-gray-400 font-mono break-all">{player}</p>
+        </div>
+
+        {!isValidAddress ? (
+          <div className="p-8 text-center text-red-300">That doesn&apos;t look like an account address</div>
+        ) : leaderboard.isLoading ? (
+          <div className="p-8 text-center text-gray-400">Loading...</div>
+        ) : (
+          <>
+            {/* Stats */}
+            {leaderboard.error && !stats ? (
+              <div className="p-4 text-center text-red-300">Could not load stats: {leaderboard.error}</div>
+            ) : stats && stats.gamesPlayed > 0 ? (
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <StatTile label="Points" value={stats.totalPoints.toLocaleString()} accent="text-green-400" />
+                <StatTile label="Games" value={stats.gamesPlayed} />
+                <StatTile label="Win rate" value={`${winRate}%`} />
+                <StatTile label="W / D / L" value={`${stats.wins} / ${stats.draws} / ${stats.losses}`} />
+                {stats.currentStreak !== undefined && <StatTile label="Current streak" value={stats.currentStreak} />}
+                {stats.bestStreak !== undefined && <StatTile label="Best streak" value={stats.bestStreak} />}
+                {stats.fastestWinMoves !== undefined && stats.fastestWinMoves > 0 && (
+                  <StatTile label="Fastest win (plies)" value={stats.fastestWinMoves} />
+                )}
+              </div>
+            ) : (
+              <div className="p-4 text-center text-gray-400">No finished games yet</div>
+            )}
+
+            {/* Rank */}
+            <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+              <h2 className="text-lg font-semibold text-white mb-2">Leaderboard</h2>
+              {rank ? (
+                <div className="space-y-1 text-sm">
+                  <p className="text-white">
+                    Rank <span className="font-bold">#{rank.rank}</span> of {leaderboard.entries.length}
+                  </p>
+                  {neighbours?.above ? (
+                    <button
+                      onClick={() => router.push(`/player/${neighbours.above!.entry.address}`)}
+                      className="block text-left text-gray-300 hover:text-white"
+                    >
+                      {formatGap(neighbours.above.gap)} behind #{neighbours.above.entry.rank}{' '}
+                      <span className="font-mono">{formatAddress(neighbours.above.entry.address)}</span>
+                    </button>
+                  ) : (
+                    <p className="text-yellow-400">Top of the leaderboard</p>
+                  )}
+                  {neighbours?.below && (
+                    <button
+                      onClick={() => router.push(`/player/${neighbours.below!.entry.address}`)}
+                      className="block text-left text-gray-300 hover:text-white"
+                    >
+                      {formatGap(neighbours.below.gap)} ahead of #{neighbours.below.entry.rank}{' '}
+                      <span className="font-mono">{formatAddress(neighbours.below.entry.address)}</span>
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400">Not in the top {LEADERBOARD_SIZE}</p>
+              )}
+            </div>
+
+            {/* Current game */}
+            <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold text-white">Current Game</h2>
+                {(hasGame || desync) && (
+                  <button
+                    onClick={() => router.push(`/game/${player}`)}
+                    className="text-sm text-blue-400 hover:text-blue-300 underline"
+                  >
+                    Watch live
+                  </button>
+                )}
+              </div>
+              {isGameLoading ? (
+                <p className="text-sm text-gray-400">Loading...</p>
+              ) : gameState ? (
+                <div className="max-w-xs mx-auto">
+                  <ChessBoard
+                    board={gameState.board}
+                    selectedSquare={null}
+                    highlightedMoves={[]}
+                    lastMove={lastMove}
+                    whiteKingPos={gameState.whiteKingPos}
+                    blackKingPos={gameState.blackKingPos}
+                    isInCheck={gameState.isInCheck}
+                    isWhiteTurn={gameState.isWhiteTurn}
+                    disabled
+                    onSquareClick={() => {}}
+                    promotionPending={null}
+                    onPromotion={() => {}}
+                  />
+                  <p className="mt-2 text-center text-xs text-gray-400">
+                    {gameState.status === 'active' ? 'In progress' : 'Finished'}, move{' '}
+                    {Math.ceil(gameState.moveCount / 2)}
+                  </p>
+                </div>
+              ) : desync ? (
+                <p className="text-sm text-red-300">{desync.message}</p>
+              ) : (
+                <p className="text-sm text-gray-400">No game in progress</p>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-center gap-3">
+          <Button variant="outline" onClick={() => router.push('/leaderboard')}>
+            Back to Leaderboard
+          </Button>
+          <Button variant="outline" onClick={() => router.push('/')}>
+            Back to Game
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from 'movement-design-system';
+import { PointsChart } from '../../components/PointsChart';
+import { ResultsChart } from '../../components/ResultsChart';
+import { StatTile } from '../../components/StatTile';
+import { useChessSDK } from '../../hooks/useChessSDK';
+import { useArchivedGames } from '../../hooks/useArchivedGames';
+import { ChessContractClient } from '../../utils/contract';
+import { buildArchiveStats } from '../../utils/stats';
+import type { PlayerStats } from '../../types/chess';
+import type { OpeningStats } from '../../types/stats';
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function OpeningTable({ title, rows }: { title: string; rows: OpeningStats[] }) {
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+      <h2 className="text-lg font-semibold text-white mb-3">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-400">No games yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 text-xs text-left">
+              <th className="font-normal pb-1">Moves</th>
+              <th className="font-normal pb-1 text-right">Games</th>
+              <th className="font-normal pb-1 text-right">W / D / L</th>
+              <th className="font-normal pb-1 text-right">Win rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.moves} className="border-t border-gray-700/50">
+                <td className="py-1 font-mono text-white">{row.moves}</td>
+                <td className="py-1 text-right text-gray-300">{row.played}</td>
+                <td className="py-1 text-right text-gray-300 font-mono">
+                  {row.won} / {row.drawn} / {row.lost}
+                </td>
+                <td className="py-1 text-right text-white">{formatPercent(row.winRate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function StatsPage() {
+  const router = useRouter();
+  const { sdk, address } = useChessSDK();
+  const { games, isLoading, error } = useArchivedGames(address);
+  const [chainStats, setChainStats] = useState<PlayerStats | null>(null);
+
+  const stats = useMemo(() => buildArchiveStats(games), [games]);
+
+  useEffect(() => {
+    if (!sdk || !address) return;
+
+    new ChessContractClient(sdk)
+      .getPlayerStats(address)
+      .then(setChainStats)
+      .catch(err => console.error('[Chess] Failed to fetch player stats:', err));
+  }, [sdk, address]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-white">Stats</h1>
+          <p className="text-sm text-gray-400">Computed from the games saved on this device</p>
+        </div>
+
+        {/* On-chain stats */}
+        {chainStats && chainStats.gamesPlayed > 0 && (
+          <div className="p-4 bg-green-900/30 rounded-xl border border-green-700/50">
+            <div className="text-sm text-green-400 mb-2 font-medium">On chain</div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <StatTile label="Points" value={chainStats.totalPoints} accent="text-green-400" />
+              <StatTile label="Wins" value={chainStats.wins} />
+              <StatTile label="Losses" value={chainStats.losses} />
+              <StatTile label="Draws" value={chainStats.draws} />
+              {chainStats.currentStreak !== undefined && (
+                <StatTile label="Current streak" value={chainStats.currentStreak} />
+              )}
+              {chainStats.bestStreak !== undefined && (
+                <StatTile label="Best streak" value={chainStats.bestStreak} />
+              )}
+              {chainStats.fastestWinMoves !== undefined && chainStats.fastestWinMoves > 0 && (
+                <StatTile label="Fastest win (plies)" value={chainStats.fastestWinMoves} />
+              )}
+            </div>
+          </div>
+        )}
+
+        {!address ? (
+          <div className="p-8 text-center text-gray-400">Connect your wallet to see your stats</div>
+        ) : isLoading ? (
+          <div className="p-8 text-center text-gray-400">Loading...</div>
+        ) : error ? (
+          <div className="p-8 text-center text-red-300">Could not read the archive: {error}</div>
+        ) : stats.totals.played === 0 ? (
+          <div className="p-8 text-center text-gray-400">Finish a game to see your stats</div>
+        ) : (
+          <>
+            {/* Archive summary */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <StatTile label="Games" value={stats.totals.played} />
+              <StatTile label="Win rate" value={formatPercent(stats.totals.winRate)} accent="text-green-400" />
+              <StatTile label="Avg. length (moves)" value={stats.averageLength.toFixed(1)} />
+              <StatTile label="Best streak" value={stats.bestStreak} />
+              <StatTile label="Won" value={stats.totals.won} />
+              <StatTile label="Drawn" value={stats.totals.drawn} />
+              <StatTile label="Lost" value={stats.totals.lost} />
+              <StatTile
+                label="Fastest win (plies)"
+                value={stats.fastestWinMoves > 0 ? stats.fastestWinMoves : '-'}
+              />
+            </div>
+
+            <p className="text-xs text-gray-400 text-center">
+              Average length: {stats.averageLengthByResult.won.toFixed(1)} moves in wins,{' '}
+              {stats.averageLengthByResult.drawn.toFixed(1)} in draws, {stats.averageLengthByResult.lost.toFixed(1)} in
+              losses
+            </p>
+
+            {/* Results over time */}
+            <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+              <h2 className="text-lg font-semibold text-white mb-3">Results by day</h2>
+              <ResultsChart days={stats.resultsByDay} />
+            </div>
+
+            {/* Points timeline */}
+            <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+              <div className="flex items-baseline justify-between mb-3">
+                <h2 className="text-lg font-semibold text-white">Points</h2>
+                <span className="text-sm text-gray-400">
+                  {stats.pointsTimeline[stats.pointsTimeline.length - 1].totalPoints} from these games
+                </span>
+              </div>
+              <PointsChart timeline={stats.pointsTimeline} />
+              <p className="mt-2 text-xs text-gray-500">
+                Win +25 plus up to +15 for a fast win and +2 per streak win (max +10), draw +10, loss -5
+              </p>
+            </div>
+
+            <OpeningTable title="Win rate by opening" rows={stats.openings} />
+            <OpeningTable title="Most played first moves" rows={stats.firstMoves} />
+          </>
+        )}
+
+        {/* Back button */}
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => router.push('/')}>
+            Back to Game
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
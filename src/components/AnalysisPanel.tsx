@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { formatScore } from '../utils/engine';
+import { formatMoves } from '../utils/notation';
+import { useNotationStyle } from '../hooks/useNotationStyle';
+import type { Position } from '../types/chess';
+import type { Analysis } from '../types/engine';
+
+interface AnalysisPanelProps {
+  enabled: boolean;
+  position: Position;
+  ply: number;
+  analysis: Analysis | null;
+  isAnalyzing: boolean;
+  error: string | null;
+  onToggle: () => void;
+  onCancel: () => void;
+  onRestart: () => void;
+}
+
+export function AnalysisPanel({
+  enabled,
+  position,
+  ply,
+  analysis,
+  isAnalyzing,
+  error,
+  onToggle,
+  onCancel,
+  onRestart,
+}: AnalysisPanelProps) {
+  const [notationStyle] = useNotationStyle();
+
+  // Number the line from the viewed ply: "12. Nf3 d5" or "12... d5 13. Nf3"
+  const line = useMemo(() => {
+    if (!analysis) return '';
+    const texts = formatMoves(analysis.pv, notationStyle, position);
+
+    return texts.map((text, idx) => {
+      const moveNumber = Math.floor((ply + idx) / 2) + 1;
+      const isWhiteMove = (ply + idx) % 2 === 0;
+      if (isWhiteMove) return `${moveNumber}. ${text}`;
+      return idx === 0 ? `${moveNumber}... ${text}` : text;
+    }).join(' ');
+  }, [analysis, notationStyle, position, ply]);
+
+  let status: string;
+  if (!enabled) status = 'Off';
+  else if (isAnalyzing) status = 'Analyzing...';
+  else if (error) status = 'Failed';
+  else if (analysis) status = `Depth ${analysis.depth}`;
+  else status = 'Stopped';
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-white">Analysis</h3>
+        <button
+          onClick={onToggle}
+          className={`px-2 py-0.5 rounded text-xs ${
+            enabled ? 'bg-green-600/30 text-green-300' : 'bg-gray-700/50 text-gray-400 hover:text-gray-200'
+          }`}
+        >
+          {enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {enabled && (
+        <>
+          <div className="flex items-baseline justify-between">
+            <span className="text-2xl font-mono font-bold text-white">
+              {analysis ? formatScore(analysis.score) : '--'}
+            </span>
+            <span className="text-xs text-gray-400">{status}</span>
+          </div>
+
+          {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+
+          {analysis && (
+            <p className="mt-2 text-sm text-gray-300 font-mono break-words">
+              {line || 'No legal moves'}
+            </p>
+          )}
+
+          <div className="mt-3">
+            {isAnalyzing ? (
+              <button
+                onClick={onCancel}
+                className="text-xs text-gray-400 hover:text-gray-200 underline"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={onRestart}
+                className="text-xs text-gray-400 hover:text-gray-200 underline"
+              >
+                Re-run
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default AnalysisPanel;
@@ -11,6 +11,9 @@ interface ChessBoardProps {
   selectedSquare: number | null;
   highlightedMoves: number[];
   lastMove: { from: number; to: number } | null;
+  hintMove?: { from: number; to: number } | null;
+  replyMove?: { from: number; to: number } | null;
+  pendingSquare?: number | null;
   whiteKingPos: number;
   blackKingPos: number;
   isInCheck: boolean;
@@ -29,6 +32,9 @@ export function ChessBoard({
   selectedSquare,
   highlightedMoves,
   lastMove,
+  hintMove = null,
+  replyMove = null,
+  pendingSquare = null,
   whiteKingPos,
   blackKingPos,
   isInCheck,
@@ -56,6 +62,8 @@ export function ChessBoard({
       const isSelected = squareIndex === selectedSquare;
       const isHighlighted = highlightedMoves.includes(squareIndex);
       const isLastMoveSquare = lastMove && (squareIndex === lastMove.from || squareIndex === lastMove.to);
+      const isHintSquare = hintMove && (squareIndex === hintMove.from || squareIndex === hintMove.to);
+      const isReplySquare = replyMove && (squareIndex === replyMove.from || squareIndex === replyMove.to);
 
       // Check if this square has the king that's in check
       const kingInCheck = isInCheck && isWhiteTurn && squareIndex === whiteKingPos;
@@ -77,12 +85,24 @@ export function ChessBoard({
           `}
           onClick={() => !disabled && onSquareClick(squareIndex)}
         >
+          {/* Suggested move */}
+          {isHintSquare && (
+            <div className="absolute inset-0 bg-sky-400/40" />
+          )}
+
+          {/* Predicted AI reply */}
+          {isReplySquare && (
+            <div className="absolute inset-0 bg-red-500/30" />
+          )}
+
           {/* Piece */}
           {piece && (
             <ChessPiece
               type={piece.type}
               color={piece.color}
-              className="w-[85%] h-[85%] drop-shadow-md"
+              className={`w-[85%] h-[85%] drop-shadow-md ${
+                squareIndex === pendingSquare ? 'opacity-60 animate-pulse' : ''
+              }`}
             />
           )}
 
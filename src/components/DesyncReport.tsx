@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+import { Button } from 'movement-design-system';
+import { squareToNotation } from '../utils/chess';
+import { downloadFile } from '../utils/download';
+import { buildProblemReport, describeSquare } from '../utils/verify';
+import type { BoardMismatchError } from '../utils/contract';
+
+interface DesyncReportProps {
+  error: BoardMismatchError;
+  onRetry?: () => void;
+}
+
+// Shown instead of the board when get_game disagrees with get_moves
+export function DesyncReport({ error, onRetry }: DesyncReportProps) {
+  const { diagnostic } = error;
+
+  const handleReport = () => {
+    const report = buildProblemReport(error.player, diagnostic, error.responses);
+    const stamp = report.generatedAt.replace(/[:.]/g, '-');
+    downloadFile(
+      `chess-problem-${error.player.slice(0, 8)}-${stamp}.json`,
+      JSON.stringify(report, null, 2),
+      'application/json'
+    );
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-4 border border-red-700/50 space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold text-red-300">The board doesn&apos;t match the move list</h2>
+        <p className="text-sm text-gray-400">
+          Replaying {diagnostic.plies} moves from the start gives a different position than the one on chain, so
+          the board isn&apos;t shown.
+        </p>
+      </div>
+
+      {diagnostic.replayError && (
+        <p className="text-sm text-red-200">The moves could not be replayed: {diagnostic.replayError}</p>
+      )}
+      {diagnostic.boardLength !== 64 && (
+        <p className="text-sm text-red-200">The board has {diagnostic.boardLength} squares instead of 64.</p>
+      )}
+      {diagnostic.kings.map(king => (
+        <p key={king.color} className="text-sm text-red-200">
+          The {king.color} king is recorded on {squareToNotation(king.actual)} but the moves put it on{' '}
+          {squareToNotation(king.expected)}.
+        </p>
+      ))}
+
+      {diagnostic.squares.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 text-xs text-left">
+              <th className="font-normal pb-1">Square</th>
+              <th className="font-normal pb-1">From moves</th>
+              <th className="font-normal pb-1">On chain</th>
+              <th className="font-normal pb-1">Why</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diagnostic.squares.map(mismatch => (
+              <tr key={mismatch.square} className="border-t border-gray-700/50 align-top">
+                <td className="py-1 font-mono text-white">{squareToNotation(mismatch.square)}</td>
+                <td className="py-1 text-gray-300">{describeSquare(mismatch.expected)}</td>
+                <td className="py-1 text-gray-300">{describeSquare(mismatch.actual)}</td>
+                <td className="py-1 text-gray-400">{mismatch.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleReport}>
+          Report problem
+        </Button>
+        {onRetry && (
+          <Button variant="outline" onClick={onRetry}>
+            Try again
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DesyncReport;
@@ -0,0 +1,47 @@
+'use client';
+
+import React from 'react';
+import { formatScore, isMateScore, scoreToPawns } from '../utils/engine';
+
+interface EvalBarProps {
+  score: number | null;
+  isAnalyzing: boolean;
+}
+
+// Share of the bar filled for white. Squashed so a few pawns already look
+// decisive and a mate fills it completely.
+function whiteShare(score: number): number {
+  const pawns = scoreToPawns(score);
+  if (isMateScore(score)) return pawns > 0 ? 100 : 0;
+  return 50 + 50 * Math.tanh(pawns / 4);
+}
+
+export function EvalBar({ score, isAnalyzing }: EvalBarProps) {
+  const share = score === null ? 50 : whiteShare(score);
+  const whiteAhead = score !== null && scoreToPawns(score) >= 0;
+
+  return (
+    <div
+      className={`relative w-6 rounded-md overflow-hidden bg-gray-900 border border-gray-700/50 ${
+        isAnalyzing ? 'opacity-60' : ''
+      }`}
+      title={score === null ? 'No evaluation' : `Evaluation ${formatScore(score)}`}
+    >
+      <div
+        className="absolute bottom-0 left-0 right-0 bg-gray-100 transition-all duration-300"
+        style={{ height: `${share}%` }}
+      />
+      {score !== null && (
+        <span
+          className={`absolute left-0 right-0 text-center text-[9px] font-mono font-semibold ${
+            whiteAhead ? 'bottom-1 text-gray-900' : 'top-1 text-gray-100'
+          }`}
+        >
+          {formatScore(score).replace(/^[+-]/, '')}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default EvalBar;
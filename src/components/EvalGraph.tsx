@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+
+interface EvalGraphProps {
+  evaluations: number[];
+  selectedPly: number;
+  markedPlies?: number[];
+  onSelectPly?: (ply: number) => void;
+}
+
+const WIDTH = 100;
+const HEIGHT = 40;
+
+// Centipawns to a y coordinate, squashed the same way as the eval bar
+function toY(centipawns: number): number {
+  return HEIGHT / 2 - (HEIGHT / 2) * Math.tanh(centipawns / 400);
+}
+
+export function EvalGraph({ evaluations, selectedPly, markedPlies = [], onSelectPly }: EvalGraphProps) {
+  if (evaluations.length < 2) return null;
+
+  const step = WIDTH / (evaluations.length - 1);
+  const points = evaluations.map((cp, ply) => `${ply * step},${toY(cp)}`);
+  const area = `0,${HEIGHT} ${points.join(' ')} ${WIDTH},${HEIGHT}`;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-28 rounded-lg bg-gray-900 border border-gray-700/50"
+    >
+      {/* White's share of the evaluation */}
+      <polygon points={area} className="fill-gray-200" />
+      <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} className="stroke-gray-500" strokeWidth={0.2} />
+
+      {/* Selected ply */}
+      <line
+        x1={selectedPly * step}
+        y1={0}
+        x2={selectedPly * step}
+        y2={HEIGHT}
+        className="stroke-blue-500"
+        strokeWidth={0.4}
+      />
+
+      {/* Mistakes and blunders (marked after the move is played) */}
+      {markedPlies.map(ply => (
+        <line
+          key={ply}
+          x1={(ply + 1) * step}
+          y1={0}
+          x2={(ply + 1) * step}
+          y2={HEIGHT}
+          className="stroke-red-500/60"
+          strokeWidth={0.4}
+        />
+      ))}
+
+      {/* Click targets, one per ply */}
+      {onSelectPly && evaluations.map((_, ply) => (
+        <rect
+          key={ply}
+          x={ply * step - step / 2}
+          y={0}
+          width={step}
+          height={HEIGHT}
+          fill="transparent"
+          className="cursor-pointer"
+          onClick={() => onSelectPly(ply)}
+        />
+      ))}
+    </svg>
+  );
+}
+
+export default EvalGraph;
@@ -1,8 +1,12 @@
 'use client';
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { getStatusMessage } from '../utils/chess';
-import type { GameStatus, ChessMove } from '../types/chess';
+import { formatMoves } from '../utils/notation';
+import { useNotationStyle } from '../hooks/useNotationStyle';
+import { FIFTY_MOVE_HALF_MOVES } from '../utils/rules';
+import type { GameStatus, ChessMove, DrawClaimStatus, NotationStyle } from '../types/chess';
+import type { ScoreProjection } from '../types/stats';
 
 interface GameInfoProps {
   status: GameStatus;
@@ -10,20 +14,78 @@ interface GameInfoProps {
   moveCount: number;
   isInCheck: boolean;
   moves: ChessMove[];
+  viewedPly?: number;
+  onSelectPly?: (ply: number) => void;
+  isMovePending?: boolean;
+  isAiReplying?: boolean;
+  isCatchingUp?: boolean;
+  drawClaim?: DrawClaimStatus | null;
+  repetitionCount?: number;
+  scoreProjections?: ScoreProjection[] | null;
+  currentRank?: number | null;
+  isStreakEstimated?: boolean;
+  // Someone else's game: don't address the viewer as the player
+  isSpectating?: boolean;
 }
 
+const OUTCOME_LABELS: Record<ScoreProjection['outcome'], string> = {
+  win: 'Win now',
+  draw: 'Draw',
+  resign: 'Resign',
+};
+
+function formatDelta(delta: number): string {
+  return delta >= 0 ? `+${delta}` : String(delta);
+}
+
+const NOTATION_OPTIONS: { style: NotationStyle; label: string }[] = [
+  { style: 'san', label: 'SAN' },
+  { style: 'long', label: 'Long' },
+  { style: 'figurine', label: '\u2658' },
+];
+
 export function GameInfo({
   status,
   isWhiteTurn,
   moveCount,
   isInCheck,
   moves,
+  viewedPly = moves.length,
+  onSelectPly,
+  isMovePending = false,
+  isAiReplying = false,
+  isCatchingUp = false,
+  drawClaim = null,
+  repetitionCount = 1,
+  scoreProjections = null,
+  currentRank = null,
+  isStreakEstimated = false,
+  isSpectating = false,
 }: GameInfoProps) {
-  const statusMessage = getStatusMessage(status, isWhiteTurn);
+  let statusMessage = getStatusMessage(status, isWhiteTurn);
+  if (isSpectating && status === 'active' && isWhiteTurn) statusMessage = 'White to move';
+  if (isMovePending) statusMessage = 'Confirming your move...';
+  else if (isAiReplying) statusMessage = 'AI is replying...';
+  else if (isCatchingUp) statusMessage = 'Catching up with moves from another device...';
   const isGameOver = status !== 'active';
 
-  // Get last few moves for display
-  const recentMoves = moves.slice(-6);
+  const [notationStyle, setNotationStyle] = useNotationStyle();
+
+  // Notation depends on earlier moves (checks, disambiguation), so format
+  // the whole history at once
+  const formattedMoves = useMemo(
+    () => formatMoves(moves, notationStyle),
+    [moves, notationStyle]
+  );
+
+  // Group plies into numbered white/black pairs
+  const movePairs = useMemo(() => {
+    const pairs: { number: number; white: string; black?: string }[] = [];
+    for (let i = 0; i < formattedMoves.length; i += 2) {
+      pairs.push({ number: i / 2 + 1, white: formattedMoves[i], black: formattedMoves[i + 1] });
+    }
+    return pairs;
+  }, [formattedMoves]);
 
   return (
     <div className="bg-gray-800/50 rounded-xl p-4 space-y-4 border border-gray-700/50">
@@ -37,7 +99,7 @@ export function GameInfo({
             }`}
           />
           <span className="text-white font-medium">
-            {isWhiteTurn ? 'White (You)' : 'Black (AI)'}
+            {isWhiteTurn ? (isSpectating ? 'White' : 'White (You)') : 'Black (AI)'}
           </span>
         </div>
       </div>
@@ -58,7 +120,7 @@ export function GameInfo({
               : 'text-white'
           }`}
         >
-          {isInCheck && status === 'active' ? 'Check!' : statusMessage}
+          {isInCheck && status === 'active' && !isAiReplying ? 'Check!' : statusMessage}
         </span>
       </div>
 
@@ -68,35 +130,110 @@ export function GameInfo({
         <span className="text-white font-mono">{Math.floor(moveCount / 2) + 1}</span>
       </div>
 
-      {/* Recent Moves */}
-      {recentMoves.length > 0 && (
+      {/* Repetition indicator (the contract doesn't enforce threefold) */}
+      {repetitionCount > 1 && (
+        <div className="flex items-center justify-between">
+          <span className="text-gray-400 text-sm">Repetition</span>
+          <span
+            className={`font-medium ${repetitionCount >= 3 ? 'text-orange-400' : 'text-yellow-400'}`}
+            title="Threefold repetition is not enforced on chain"
+          >
+            {repetitionCount >= 3 ? `Position repeated ${repetitionCount} times` : 'Position repeated'}
+          </span>
+        </div>
+      )}
+
+      {/* Draw claim countdown */}
+      {drawClaim && !isGameOver && (
+        <div>
+          <div className="flex items-center justify-between">
+            <span className="text-gray-400 text-sm">50-move rule</span>
+            {drawClaim.canClaim ? (
+              <span className="text-yellow-400 font-medium">
+                {drawClaim.isInsufficientMaterial ? 'Draw available (insufficient material)' : 'Draw available'}
+              </span>
+            ) : (
+              <span className="text-white font-mono text-sm">
+                {drawClaim.halfMovesRemaining} half-move{drawClaim.halfMovesRemaining === 1 ? '' : 's'} left
+              </span>
+            )}
+          </div>
+          <div className="mt-1 h-1 bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${drawClaim.canClaim ? 'bg-yellow-400' : 'bg-gray-400'}`}
+              style={{ width: `${Math.min(100, (drawClaim.halfMoveClock / FIFTY_MOVE_HALF_MOVES) * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Points at stake */}
+      {scoreProjections && !isGameOver && (
+        <div className="border-t border-gray-700/50 pt-3">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-gray-400 text-sm">Points at stake</span>
+            {currentRank !== null && <span className="text-xs text-gray-400">Rank #{currentRank}</span>}
+          </div>
+          <ul className="space-y-0.5 text-sm">
+            {scoreProjections.map(({ outcome, delta, rank }) => (
+              <li key={outcome} className="flex items-center justify-between">
+                <span className="text-gray-300">{OUTCOME_LABELS[outcome]}</span>
+                <span className="font-mono">
+                  <span className={delta > 0 ? 'text-green-400' : delta < 0 ? 'text-red-400' : 'text-gray-300'}>
+                    {formatDelta(delta)}
+                  </span>
+                  <span className="ml-2 text-xs text-gray-400">{rank !== null ? `#${rank}` : 'unranked'}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+          {isStreakEstimated && (
+            <p className="mt-1 text-xs text-gray-500">Streak bonus estimated from games on this device</p>
+          )}
+        </div>
+      )}
+
+      {/* Move List */}
+      {movePairs.length > 0 && (
         <div className="border-t border-gray-700/50 pt-3">
-          <span className="text-gray-400 text-sm block mb-2">Recent Moves</span>
-          <div className="space-y-1 text-xs font-mono">
-            {recentMoves.map((move, idx) => {
-              const moveNum = moves.length - recentMoves.length + idx;
-              const isWhiteMove = moveNum % 2 === 0;
-              const fromFile = String.fromCharCode(97 + (move.from_square % 8));
-              const fromRank = Math.floor(move.from_square / 8) + 1;
-              const toFile = String.fromCharCode(97 + (move.to_square % 8));
-              const toRank = Math.floor(move.to_square / 8) + 1;
-
-              return (
-                <div
-                  key={idx}
-                  className={`flex justify-between ${
-                    isWhiteMove ? 'text-gray-200' : 'text-gray-400'
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-gray-400 text-sm">Moves</span>
+            <div className="flex gap-1">
+              {NOTATION_OPTIONS.map(({ style, label }) => (
+                <button
+                  key={style}
+                  onClick={() => setNotationStyle(style)}
+                  className={`px-1.5 py-0.5 rounded text-xs ${
+                    notationStyle === style
+                      ? 'bg-gray-600 text-white'
+                      : 'text-gray-400 hover:text-gray-200'
                   }`}
                 >
-                  <span>{isWhiteMove ? `${Math.floor(moveNum / 2) + 1}.` : '...'}</span>
-                  <span>
-                    {fromFile}{fromRank} → {toFile}{toRank}
-                    {move.captured_piece > 0 && ' x'}
-                    {move.is_castling && ' O-O'}
-                  </span>
-                </div>
-              );
-            })}
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="max-h-48 overflow-y-auto space-y-0.5 text-xs font-mono">
+            {movePairs.map(({ number, white, black }) => (
+              <div key={number} className="grid grid-cols-[2.5rem_1fr_1fr] items-center">
+                <span className="text-gray-500">{number}.</span>
+                <MoveButton
+                  notation={white}
+                  ply={number * 2 - 1}
+                  isViewed={viewedPly === number * 2 - 1}
+                  onSelect={onSelectPly}
+                />
+                {black && (
+                  <MoveButton
+                    notation={black}
+                    ply={number * 2}
+                    isViewed={viewedPly === number * 2}
+                    onSelect={onSelectPly}
+                  />
+                )}
+              </div>
+            ))}
           </div>
         </div>
       )}
@@ -104,4 +241,27 @@ export function GameInfo({
   );
 }
 
+interface MoveButtonProps {
+  notation: string;
+  ply: number;
+  isViewed: boolean;
+  onSelect?: (ply: number) => void;
+}
+
+function MoveButton({ notation, ply, isViewed, onSelect }: MoveButtonProps) {
+  return (
+    <button
+      onClick={() => onSelect?.(ply)}
+      disabled={!onSelect}
+      className={`text-left px-1.5 py-0.5 rounded ${
+        isViewed
+          ? 'bg-blue-900/50 text-white'
+          : 'text-gray-300 hover:bg-gray-700/50 disabled:hover:bg-transparent'
+      }`}
+    >
+      {notation}
+    </button>
+  );
+}
+
 export default GameInfo;
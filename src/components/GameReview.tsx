@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { EvalGraph } from './EvalGraph';
+import { formatMove, formatMoves } from '../utils/notation';
+import { replayPositions } from '../utils/replay';
+import { useNotationStyle } from '../hooks/useNotationStyle';
+import type { ChessMove } from '../types/chess';
+import type { GameReview as GameReviewData, MoveClassification, SideSummary } from '../types/review';
+
+interface GameReviewProps {
+  moves: ChessMove[];
+  review: GameReviewData | null;
+  progress: number;
+  isRunning: boolean;
+  error: string | null;
+  selectedPly: number;
+  onSelectPly: (ply: number) => void;
+  onClose: () => void;
+}
+
+const CLASSIFICATION_STYLES: Record<MoveClassification, { label: string; symbol: string; className: string }> = {
+  best: { label: 'Best', symbol: '!', className: 'text-green-400' },
+  good: { label: 'Good', symbol: '', className: 'text-gray-300' },
+  inaccuracy: { label: 'Inaccuracy', symbol: '?!', className: 'text-yellow-400' },
+  mistake: { label: 'Mistake', symbol: '?', className: 'text-orange-400' },
+  blunder: { label: 'Blunder', symbol: '??', className: 'text-red-400' },
+};
+
+const CLASSIFICATIONS: MoveClassification[] = ['best', 'good', 'inaccuracy', 'mistake', 'blunder'];
+
+function formatCentipawns(cp: number): string {
+  const pawns = cp / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+function moveLabel(ply: number, text: string): string {
+  const moveNumber = Math.floor(ply / 2) + 1;
+  return ply % 2 === 0 ? `${moveNumber}. ${text}` : `${moveNumber}... ${text}`;
+}
+
+function SideCard({ name, summary }: { name: string; summary: SideSummary }) {
+  return (
+    <div className="flex-1 p-3 bg-gray-900/50 rounded-lg">
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm text-gray-400">{name}</span>
+        <span className="text-xl font-bold text-white">{summary.accuracy.toFixed(1)}%</span>
+      </div>
+      <ul className="mt-2 space-y-0.5 text-xs">
+        {CLASSIFICATIONS.map(c => (
+          <li key={c} className="flex justify-between">
+            <span className={CLASSIFICATION_STYLES[c].className}>{CLASSIFICATION_STYLES[c].label}</span>
+            <span className="text-gray-400 font-mono">{summary.counts[c]}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function GameReview({
+  moves,
+  review,
+  progress,
+  isRunning,
+  error,
+  selectedPly,
+  onSelectPly,
+  onClose,
+}: GameReviewProps) {
+  const [notationStyle] = useNotationStyle();
+
+  const positions = useMemo(() => replayPositions(moves), [moves]);
+  const moveTexts = useMemo(() => formatMoves(moves, notationStyle), [moves, notationStyle]);
+
+  const formatBest = (ply: number, move: ChessMove | null) =>
+    move ? formatMove(positions[ply], move, notationStyle) : '-';
+
+  return (
+    <div className="mt-4 bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-white">Game Review</h3>
+        <button onClick={onClose} className="text-sm text-gray-400 hover:text-gray-200">
+          Close
+        </button>
+      </div>
+
+      {isRunning && (
+        <div className="mb-3">
+          <p className="text-xs text-gray-400 mb-1">
+            Analyzing position {Math.round(progress * (moves.length + 1))} of {moves.length + 1}...
+          </p>
+          <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="mb-3 text-sm text-red-300">Review failed: {error}</p>
+      )}
+
+      {review && (
+        <>
+          <div className="flex gap-3 mb-3">
+            <SideCard name="White (you)" summary={review.white} />
+            <SideCard name="Black (AI)" summary={review.black} />
+          </div>
+
+          <EvalGraph
+            evaluations={review.evaluations}
+            selectedPly={selectedPly}
+            markedPlies={review.criticalMoments.map(m => m.ply)}
+            onSelectPly={onSelectPly}
+          />
+
+          {/* Critical moments */}
+          <h4 className="mt-4 mb-2 text-sm font-semibold text-white">Critical moments</h4>
+          {review.criticalMoments.length === 0 ? (
+            <p className="text-sm text-gray-400">No mistakes or blunders</p>
+          ) : (
+            <ul className="space-y-1">
+              {review.criticalMoments.map(m => {
+                const style = CLASSIFICATION_STYLES[m.classification];
+                return (
+                  <li key={m.ply}>
+                    <button
+                      onClick={() => onSelectPly(m.ply)}
+                      className="w-full text-left px-2 py-1 rounded hover:bg-gray-700/50 text-sm font-mono"
+                    >
+                      <span className={style.className}>
+                        {moveLabel(m.ply, moveTexts[m.ply])}{style.symbol}
+                      </span>
+                      <span className="text-gray-400">
+                        {' '}{formatCentipawns(m.evalBefore)} → {formatCentipawns(m.evalAfter)}, better {formatBest(m.ply, m.bestMove)}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {/* Classified move list */}
+          <h4 className="mt-4 mb-2 text-sm font-semibold text-white">Moves</h4>
+          <div className="max-h-48 overflow-y-auto flex flex-wrap gap-x-3 gap-y-1 text-sm font-mono">
+            {review.moves.map(m => {
+              const style = CLASSIFICATION_STYLES[m.classification];
+              const isSelected = selectedPly === m.ply + 1;
+              return (
+                <button
+                  key={m.ply}
+                  onClick={() => onSelectPly(m.ply + 1)}
+                  title={`${style.label}${m.classification !== 'best' ? `, best was ${formatBest(m.ply, m.bestMove)}` : ''}`}
+                  className={`px-1 rounded ${style.className} ${isSelected ? 'bg-gray-600/70' : 'hover:bg-gray-700/50'}`}
+                >
+                  {moveLabel(m.ply, moveTexts[m.ply])}{style.symbol}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default GameReview;
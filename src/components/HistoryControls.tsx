@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+
+interface HistoryControlsProps {
+  ply: number;
+  latestPly: number;
+  onFirst: () => void;
+  onPrev: () => void;
+  onNext: () => void;
+  onLast: () => void;
+}
+
+export function HistoryControls({
+  ply,
+  latestPly,
+  onFirst,
+  onPrev,
+  onNext,
+  onLast,
+}: HistoryControlsProps) {
+  const atStart = ply === 0;
+  const atEnd = ply === latestPly;
+
+  const buttons = [
+    { label: '⏮', title: 'First move', onClick: onFirst, disabled: atStart },
+    { label: '◀', title: 'Previous move', onClick: onPrev, disabled: atStart },
+    { label: '▶', title: 'Next move', onClick: onNext, disabled: atEnd },
+    { label: '⏭', title: 'Latest move', onClick: onLast, disabled: atEnd },
+  ];
+
+  return (
+    <div className="mt-3 flex items-center justify-center gap-2">
+      {buttons.map(({ label, title, onClick, disabled }) => (
+        <button
+          key={title}
+          title={title}
+          aria-label={title}
+          onClick={onClick}
+          disabled={disabled}
+          className="w-10 h-8 rounded-lg bg-gray-800/50 border border-gray-700/50 text-gray-200 text-sm hover:bg-gray-700/50 disabled:opacity-40 disabled:cursor-default"
+        >
+          {label}
+        </button>
+      ))}
+      <span className="ml-2 text-xs text-gray-400 font-mono">
+        {atEnd ? 'Live' : `Ply ${ply}/${latestPly}`}
+      </span>
+    </div>
+  );
+}
+
+export default HistoryControls;
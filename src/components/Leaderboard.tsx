@@ -1,75 +1,21 @@
 'use client';
 
-import React, { useEffect, useState, useCallback } from 'react';
-import { CHESS_MODULE_ADDRESS } from '../../constants';
+import React from 'react';
+import Link from 'next/link';
+import { useLeaderboard } from '../hooks/useLeaderboard';
 import { formatAddress } from '../utils/chess';
-import type { PlayerStats, LeaderboardEntry } from '../types/chess';
+import type { ChessSDK } from '../types/sdk';
 
 interface LeaderboardProps {
-  sdk: any;
+  sdk: ChessSDK | null;
   address: string | null;
+  // Rows shown before linking to the full leaderboard
+  limit?: number;
 }
 
-export function Leaderboard({ sdk, address }: LeaderboardProps) {
-  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
-  const [playerStats, setPlayerStats] = useState<PlayerStats | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  const fetchLeaderboard = useCallback(async () => {
-    if (!sdk) return;
-
-    try {
-      // Get leaderboard
-      const lbResult = await sdk.view({
-        function: `${CHESS_MODULE_ADDRESS}::chess::get_leaderboard`,
-        type_arguments: [],
-        function_arguments: [],
-      });
-
-      const [addresses, points] = Array.isArray(lbResult)
-        ? lbResult
-        : [[], []];
-
-      const leaderboardEntries: LeaderboardEntry[] = (addresses as string[]).map(
-        (addr: string, idx: number) => ({
-          address: addr,
-          points: Number((points as string[])[idx] || 0),
-          rank: idx + 1,
-        })
-      );
-
-      setEntries(leaderboardEntries.slice(0, 10));
-
-      // Get player's own stats if connected
-      if (address) {
-        const statsResult = await sdk.view({
-          function: `${CHESS_MODULE_ADDRESS}::chess::get_player_stats`,
-          type_arguments: [],
-          function_arguments: [address],
-        });
-
-        const [wins, losses, draws, totalPoints, gamesPlayed] = Array.isArray(statsResult)
-          ? statsResult
-          : [0, 0, 0, 0, 0];
-
-        setPlayerStats({
-          wins: Number(wins),
-          losses: Number(losses),
-          draws: Number(draws),
-          totalPoints: Number(totalPoints),
-          gamesPlayed: Number(gamesPlayed),
-        });
-      }
-    } catch (err) {
-      console.error('[Chess] Failed to fetch leaderboard:', err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [sdk, address]);
-
-  useEffect(() => {
-    fetchLeaderboard();
-  }, [fetchLeaderboard]);
+export function Leaderboard({ sdk, address, limit = 10 }: LeaderboardProps) {
+  const { entries: allEntries, playerStats, isLoading } = useLeaderboard(sdk, address);
+  const entries = allEntries.slice(0, limit);
 
   if (isLoading) {
     return (
@@ -115,9 +61,10 @@ export function Leaderboard({ sdk, address }: LeaderboardProps) {
           {entries.map((entry) => {
             const isCurrentPlayer = address && entry.address.toLowerCase() === address.toLowerCase();
             return (
-              <div
+              <Link
                 key={entry.address}
-                className={`flex items-center justify-between p-2 rounded-lg ${
+                href={`/player/${entry.address}`}
+                className={`flex items-center justify-between p-2 rounded-lg hover:bg-gray-700/50 ${
                   isCurrentPlayer
                     ? 'bg-blue-900/30 border border-blue-700/50'
                     : 'bg-gray-700/30'
@@ -144,9 +91,14 @@ export function Leaderboard({ sdk, address }: LeaderboardProps) {
                 <span className="text-green-400 font-semibold">
                   {entry.points.toLocaleString()}
                 </span>
-              </div>
+              </Link>
             );
           })}
+          {allEntries.length > entries.length && (
+            <Link href="/leaderboard" className="block pt-1 text-center text-sm text-blue-400 hover:text-blue-300">
+              View all {allEntries.length} players
+            </Link>
+          )}
         </div>
       ) : (
         <div className="text-gray-400 text-sm text-center py-4">
@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { Button } from 'movement-design-system';
+
+interface MovePreviewProps {
+  moveText: string;
+  replyText: string | null;
+  endsGame: boolean;
+  isComputing: boolean;
+  error: string | null;
+  isSubmitting: boolean;
+  warning?: string | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function MovePreview({
+  moveText,
+  replyText,
+  endsGame,
+  isComputing,
+  error,
+  isSubmitting,
+  warning = null,
+  onConfirm,
+  onCancel,
+}: MovePreviewProps) {
+  let replyLine: string;
+  if (endsGame) {
+    replyLine = 'The game ends with this move';
+  } else if (isComputing) {
+    replyLine = 'Calculating AI reply...';
+  } else if (error) {
+    replyLine = `Could not predict the reply: ${error}`;
+  } else {
+    replyLine = replyText ? `AI will reply ${replyText}` : 'AI has no reply';
+  }
+
+  return (
+    <div className="mt-3 p-3 bg-gray-800/50 rounded-xl border border-gray-700/50">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm">
+          <p className="text-white font-mono">You play {moveText}</p>
+          <p className={`${error ? 'text-red-300' : 'text-gray-400'} font-mono`}>{replyLine}</p>
+          {warning && <p className="text-yellow-400">{warning}</p>}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            onClick={onConfirm}
+            disabled={isSubmitting}
+            variant="default"
+            color="green"
+          >
+            {isSubmitting ? 'Signing...' : 'Confirm'}
+          </Button>
+          <Button
+            onClick={onCancel}
+            disabled={isSubmitting}
+            variant="outline"
+          >
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default MovePreview;
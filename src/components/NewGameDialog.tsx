@@ -0,0 +1,61 @@
+'use client';
+
+import React from 'react';
+import { Button } from 'movement-design-system';
+
+interface NewGameDialogProps {
+  isOpen: boolean;
+  moveCount: number;
+  isLoading: boolean;
+  onResignAndStart: () => void;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+// Shown before new_game replaces a game that is still in progress
+export function NewGameDialog({
+  isOpen,
+  moveCount,
+  isLoading,
+  onResignAndStart,
+  onStart,
+  onCancel,
+}: NewGameDialogProps) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onCancel} />
+
+      <div className="relative w-full max-w-md bg-gray-900 rounded-xl border border-gray-700/50 p-5">
+        <h3 className="text-lg font-semibold text-white">Abandon current game?</h3>
+        <div className="mt-3 space-y-2 text-sm text-gray-300">
+          <p>
+            Your game is still in progress (move {Math.floor(moveCount / 2) + 1}). Starting a new game deletes
+            it on chain: it won&apos;t count as a win, loss or draw, and its moves can&apos;t be recovered from
+            the chain.
+          </p>
+          <p>
+            Resign first to record it as a loss in your stats. Either way, a copy of the game is saved on this
+            device before the new game starts.
+          </p>
+        </div>
+
+        <div className="mt-5 flex flex-wrap gap-3 justify-end">
+          <Button onClick={onCancel} disabled={isLoading} variant="outline">
+            Cancel
+          </Button>
+          <Button onClick={onStart} disabled={isLoading} variant="outline">
+            Save copy and start
+          </Button>
+          <Button onClick={onResignAndStart} disabled={isLoading} variant="default" color="green">
+            {isLoading ? 'Working...' : 'Resign and start'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default NewGameDialog;
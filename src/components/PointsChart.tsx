@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import type { PointsTimelineEntry } from '../types/stats';
+
+interface PointsChartProps {
+  timeline: PointsTimelineEntry[];
+}
+
+const WIDTH = 100;
+const HEIGHT = 40;
+
+const RESULT_COLORS: Record<PointsTimelineEntry['result'], string> = {
+  won: 'fill-green-400',
+  lost: 'fill-red-400',
+  drawn: 'fill-yellow-400',
+};
+
+// Total points after each game, starting from zero
+export function PointsChart({ timeline }: PointsChartProps) {
+  if (timeline.length === 0) return null;
+
+  const maxPoints = Math.max(1, ...timeline.map(entry => entry.totalPoints));
+  const step = WIDTH / timeline.length;
+  const toY = (points: number) => HEIGHT - (points / maxPoints) * (HEIGHT - 2);
+  const points = [`0,${HEIGHT}`, ...timeline.map((entry, i) => `${(i + 1) * step},${toY(entry.totalPoints)}`)];
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-32 rounded-lg bg-gray-900 border border-gray-700/50"
+    >
+      <polyline points={points.join(' ')} fill="none" className="stroke-blue-400" strokeWidth={0.5} />
+      {timeline.map((entry, i) => (
+        <circle key={i} cx={(i + 1) * step} cy={toY(entry.totalPoints)} r={0.8} className={RESULT_COLORS[entry.result]}>
+          <title>
+            {`Game ${i + 1}: ${entry.result} (${entry.delta >= 0 ? '+' : ''}${entry.delta}), ${entry.totalPoints} points`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+export default PointsChart;
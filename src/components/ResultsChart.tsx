@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+import type { ResultsByDay } from '../types/stats';
+
+interface ResultsChartProps {
+  days: ResultsByDay[];
+}
+
+// Stacked bars of wins, draws and losses per day
+export function ResultsChart({ days }: ResultsChartProps) {
+  if (days.length === 0) return null;
+
+  const maxGames = Math.max(...days.map(day => day.won + day.lost + day.drawn));
+
+  return (
+    <div className="flex items-end gap-1 h-32 p-2 rounded-lg bg-gray-900 border border-gray-700/50 overflow-x-auto">
+      {days.map(day => {
+        const total = day.won + day.lost + day.drawn;
+        return (
+          <div
+            key={day.date}
+            title={`${day.date}: ${day.won} won, ${day.drawn} drawn, ${day.lost} lost`}
+            className="flex flex-col-reverse min-w-[8px] flex-1 max-w-[24px]"
+            style={{ height: `${(total / maxGames) * 100}%` }}
+          >
+            <div className="bg-green-500" style={{ flexGrow: day.won }} />
+            <div className="bg-yellow-500" style={{ flexGrow: day.drawn }} />
+            <div className="bg-red-500" style={{ flexGrow: day.lost }} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ResultsChart;
@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+
+interface StatTileProps {
+  label: string;
+  value: React.ReactNode;
+  accent?: string;
+}
+
+export function StatTile({ label, value, accent = 'text-white' }: StatTileProps) {
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-3 text-center">
+      <div className={`text-2xl font-bold ${accent}`}>{value}</div>
+      <div className="text-xs text-gray-400">{label}</div>
+    </div>
+  );
+}
+
+export default StatTile;
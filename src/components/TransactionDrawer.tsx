@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { useTransactions } from '../hooks/useTransactions';
+import { getExplorerUrl, transactionTracker } from '../utils/transactions';
+import type { TrackedTransaction, TransactionKind, TransactionState } from '../types/transactions';
+
+interface TransactionDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<TransactionKind, string> = {
+  new_game: 'New game',
+  make_move: 'Move',
+  resign: 'Resign',
+  claim_draw: 'Claim draw',
+};
+
+const STATE_STYLES: Record<TransactionState, string> = {
+  submitted: 'bg-blue-600/30 text-blue-300',
+  confirmed: 'bg-green-600/30 text-green-300',
+  failed: 'bg-red-600/30 text-red-300',
+  interrupted: 'bg-yellow-600/30 text-yellow-300',
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString();
+}
+
+function TransactionItem({ tx }: { tx: TrackedTransaction }) {
+  const [copied, setCopied] = useState(false);
+  const explorerUrl = tx.hash ? getExplorerUrl(tx.hash, tx.network) : null;
+
+  const handleCopy = useCallback(async () => {
+    if (!tx.hash) return;
+    try {
+      await navigator.clipboard.writeText(tx.hash);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('[Chess] Failed to copy hash:', err);
+    }
+  }, [tx.hash]);
+
+  return (
+    <li className="p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-white font-medium">
+          {KIND_LABELS[tx.kind]}
+          {tx.notation && <span className="ml-2 font-mono text-gray-300">{tx.notation}</span>}
+        </span>
+        <span className={`px-2 py-0.5 rounded text-xs ${STATE_STYLES[tx.state]}`}>{tx.state}</span>
+      </div>
+
+      {tx.hash && (
+        <div className="mt-2 flex items-center gap-2 font-mono text-xs">
+          <span className="text-gray-400">{tx.hash.slice(0, 10)}...{tx.hash.slice(-8)}</span>
+          <button onClick={handleCopy} className="text-gray-400 hover:text-white underline">
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          {explorerUrl && (
+            <a
+              href={explorerUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-400 hover:text-blue-300 underline"
+            >
+              Explorer
+            </a>
+          )}
+        </div>
+      )}
+
+      {tx.error && <p className="mt-2 text-xs text-red-300 break-words">{tx.error}</p>}
+      {tx.state === 'interrupted' && (
+        <p className="mt-2 text-xs text-yellow-300">
+          Page closed before the result arrived. The transaction may still have gone through; check the game or the
+          explorer.
+        </p>
+      )}
+
+      <dl className="mt-2 grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs text-gray-400">
+        <dt>Submitted</dt>
+        <dd className="text-right font-mono">{formatTime(tx.submittedAt)}</dd>
+        {tx.settledAt !== null && (
+          <>
+            <dt>{tx.state === 'failed' ? 'Failed' : 'Confirmed'}</dt>
+            <dd className="text-right font-mono">
+              {formatTime(tx.settledAt)} ({((tx.settledAt - tx.submittedAt) / 1000).toFixed(1)}s)
+            </dd>
+          </>
+        )}
+        <dt>Gas used</dt>
+        <dd className="text-right font-mono">{tx.gasUsed ?? '-'}</dd>
+        <dt>Arguments</dt>
+        <dd className="text-right font-mono truncate">{tx.args.length > 0 ? JSON.stringify(tx.args) : '-'}</dd>
+        <dt>Network</dt>
+        <dd className="text-right">{tx.network}</dd>
+      </dl>
+    </li>
+  );
+}
+
+export function TransactionDrawer({ isOpen, onClose }: TransactionDrawerProps) {
+  const transactions = useTransactions();
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      <aside className="relative w-full max-w-sm h-full bg-gray-900 border-l border-gray-700/50 p-4 overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">Transactions</h3>
+          <div className="flex gap-3 text-sm">
+            {transactions.length > 0 && (
+              <button onClick={() => transactionTracker.clear()} className="text-gray-400 hover:text-gray-200">
+                Clear
+              </button>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-200">
+              Close
+            </button>
+          </div>
+        </div>
+
+        {transactions.length === 0 ? (
+          <p className="text-sm text-gray-400">No transactions this session</p>
+        ) : (
+          <ul className="space-y-2">
+            {transactions.map(tx => (
+              <TransactionItem key={tx.id} tx={tx} />
+            ))}
+          </ul>
+        )}
+      </aside>
+    </div>
+  );
+}
+
+export default TransactionDrawer;
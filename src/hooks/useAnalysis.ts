@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { SEARCH_DEPTH } from '../utils/engine';
+import type { Position } from '../types/chess';
+import type { Analysis, EngineResponse } from '../types/engine';
+
+interface AnalysisState {
+  analysis: Analysis | null;
+  // Score of the most recent result, kept while the next position is searched
+  lastScore: number | null;
+  isAnalyzing: boolean;
+  error: string | null;
+  cancel: () => void;
+  restart: () => void;
+}
+
+function positionKey(position: Position): string {
+  return `${position.board.join(',')}|${position.isWhiteTurn}|${position.enPassantSquare}`;
+}
+
+// Analyses `position` in a dedicated worker whenever it changes. A search
+// can't be interrupted from outside, so cancelling terminates the worker and
+// the next request starts a fresh one.
+export function useAnalysis(position: Position | null, enabled: boolean): AnalysisState {
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [lastScore, setLastScore] = useState<number | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [runId, setRunId] = useState(0);
+
+  const workerRef = useRef<Worker | null>(null);
+  const busyRef = useRef(false);
+  const requestIdRef = useRef(0);
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    busyRef.current = false;
+  }, []);
+
+  const cancel = useCallback(() => {
+    requestIdRef.current++;
+    if (busyRef.current) stopWorker();
+    setIsAnalyzing(false);
+  }, [stopWorker]);
+
+  const restart = useCallback(() => setRunId(id => id + 1), []);
+
+  // Refreshes hand back equal positions as new objects, so key on content
+  const key = position ? positionKey(position) : null;
+  const positionRef = useRef(position);
+  positionRef.current = position;
+
+  useEffect(() => {
+    const target = positionRef.current;
+    setAnalysis(null);
+    setError(null);
+
+    if (!enabled || !target) {
+      cancel();
+      setLastScore(null);
+      return;
+    }
+
+    // Abandon a search for the previous position
+    if (busyRef.current) stopWorker();
+
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/engine.worker.ts', import.meta.url));
+    }
+
+    const id = ++requestIdRef.current;
+    const worker = workerRef.current;
+
+    const handleMessage = (event: MessageEvent<EngineResponse>) => {
+      const response = event.data;
+      if (response.id !== id) return;
+
+      busyRef.current = false;
+      setIsAnalyzing(false);
+      if (response.type === 'analysis') {
+        setAnalysis(response.analysis);
+        setLastScore(response.analysis.score);
+      } else if (response.type === 'error') {
+        setError(response.message);
+      }
+    };
+
+    worker.addEventListener('message', handleMessage);
+    busyRef.current = true;
+    setIsAnalyzing(true);
+    worker.postMessage({ id, type: 'analyze', position: target, depth: SEARCH_DEPTH });
+
+    return () => worker.removeEventListener('message', handleMessage);
+  }, [key, enabled, runId, cancel, stopWorker]);
+
+  useEffect(() => stopWorker, [stopWorker]);
+
+  return { analysis, lastScore, isAnalyzing, error, cancel, restart };
+}
+
+export default useAnalysis;
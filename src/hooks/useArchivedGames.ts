@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { deleteArchivedGame, getArchivedGames } from '../utils/archive';
+import type { ArchivedGame } from '../types/archive';
+
+interface UseArchivedGamesResult {
+  games: ArchivedGame[];
+  isLoading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// Games archived on this device for the connected wallet, newest first
+export function useArchivedGames(address: string | null): UseArchivedGamesResult {
+  const [games, setGames] = useState<ArchivedGame[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!address) {
+      setGames([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setGames(await getArchivedGames(address));
+      setError(null);
+    } catch (err) {
+      console.error('[Chess] Failed to read archive:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read archive');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteArchivedGame(id);
+      setGames(current => current.filter(game => game.id !== id));
+    } catch (err) {
+      console.error('[Chess] Failed to delete archived game:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete game');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { games, isLoading, error, reload, remove };
+}
+
+export default useArchivedGames;
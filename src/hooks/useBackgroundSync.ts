@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+// Poll quickly while things change, backing off while they don't
+const MIN_INTERVAL_MS = 4000;
+const MAX_INTERVAL_MS = 30000;
+const BACKOFF_FACTOR = 1.5;
+// Hidden tabs only check in occasionally and resync when shown again
+const HIDDEN_INTERVAL_MS = 60000;
+
+interface UseBackgroundSyncOptions {
+  enabled?: boolean;
+}
+
+// Calls sync on a timer while mounted. sync resolves to whether anything
+// changed, which resets the backoff. Focusing the window or showing the tab
+// syncs straight away.
+export function useBackgroundSync(
+  sync: () => Promise<boolean>,
+  { enabled = true }: UseBackgroundSyncOptions = {}
+): void {
+  const syncRef = useRef(sync);
+  syncRef.current = sync;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let delay = MIN_INTERVAL_MS;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let isRunning = false;
+    let stopped = false;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(run, document.hidden ? HIDDEN_INTERVAL_MS : delay);
+    };
+
+    const run = async () => {
+      if (isRunning) return;
+      isRunning = true;
+      try {
+        const changed = await syncRef.current();
+        delay = changed ? MIN_INTERVAL_MS : Math.min(delay * BACKOFF_FACTOR, MAX_INTERVAL_MS);
+      } catch (err) {
+        console.warn('[Chess] Background sync failed:', err);
+        delay = Math.min(delay * BACKOFF_FACTOR, MAX_INTERVAL_MS);
+      } finally {
+        isRunning = false;
+        if (!stopped) schedule();
+      }
+    };
+
+    const resync = () => {
+      if (document.hidden) return;
+      delay = MIN_INTERVAL_MS;
+      run();
+    };
+
+    document.addEventListener('visibilitychange', resync);
+    window.addEventListener('focus', resync);
+    schedule();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', resync);
+      window.removeEventListener('focus', resync);
+    };
+  }, [enabled]);
+}
+
+export default useBackgroundSync;
@@ -1,185 +1,218 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { CHESS_MODULE_ADDRESS } from '../../constants';
-import { parseGameStatus, squareToNotation } from '../utils/chess';
-import type { GameState, ChessMove, GameStatus } from '../types/chess';
+import { BoardMismatchError, ChessContractClient } from '../utils/contract';
+import type { ViewOptions } from '../utils/contract';
+import { transactionTracker } from '../utils/transactions';
+import { squareToNotation } from '../utils/chess';
+import { applyMove, createMove, replayMoves } from '../utils/replay';
+import { decodeChessError } from '../utils/errors';
+import { archiveGame } from '../utils/archive';
+import { getDrawClaimStatus, isKingInCheck, positionFromGameState } from '../utils/rules';
+import { useBackgroundSync } from './useBackgroundSync';
+import type { ChessMove, DrawClaimStatus, GameState } from '../types/chess';
+import type { ChessSDK } from '../types/sdk';
+
+// How often to re-read the game when the views don't show a confirmed move
+// yet, backing off up to the max, before leaving it to the background sync
+const RECONCILE_ATTEMPTS = 5;
+const RECONCILE_DELAY_MS = 1000;
+const RECONCILE_MAX_DELAY_MS = 8000;
+// Pause between the moves played back when the chain is ahead of this device
+const CATCH_UP_STEP_MS = 400;
+
+// Last transaction that failed in a way worth sending again
+type RetryableAction =
+  | { kind: 'new_game'; resignFirst: boolean }
+  | { kind: 'make_move'; from: number; to: number; promotion: number }
+  | { kind: 'resign' }
+  | { kind: 'claim_draw' };
+
+function hasDiverged(local: GameState | null, chain: GameState | null): boolean {
+  if (!local || !chain) return local !== chain;
+  return (
+    local.moveCount !== chain.moveCount ||
+    local.status !== chain.status ||
+    JSON.stringify(local.moves) !== JSON.stringify(chain.moves)
+  );
+}
+
+function isMovePrefix(prefix: ChessMove[], moves: ChessMove[]): boolean {
+  return prefix.length <= moves.length && JSON.stringify(moves.slice(0, prefix.length)) === JSON.stringify(prefix);
+}
+
+// Positions between the local game and the chain's when the chain only has
+// extra moves, or null when the histories differ (e.g. a new game elsewhere)
+function catchUpStates(local: GameState, chain: GameState): GameState[] | null {
+  if (chain.moves.length <= local.moves.length || !isMovePrefix(local.moves, chain.moves)) return null;
+
+  const states: GameState[] = [];
+  let position = positionFromGameState(local);
+  let moves = local.moves;
+  // The last step is the chain state itself
+  for (const move of chain.moves.slice(local.moves.length, -1)) {
+    position = applyMove(position, move);
+    moves = [...moves, move];
+    states.push({
+      ...local,
+      board: position.board,
+      isWhiteTurn: position.isWhiteTurn,
+      whiteKingPos: position.whiteKingPos,
+      blackKingPos: position.blackKingPos,
+      moveCount: moves.length,
+      moves,
+      isInCheck: isKingInCheck(position, position.isWhiteTurn),
+    });
+  }
+  return states;
+}
 
 interface UseChessGameResult {
   gameState: GameState | null;
   isLoading: boolean;
   isInitializing: boolean;
   error: string;
+  canRetry: boolean;
   hasGame: boolean;
-  startNewGame: () => Promise<void>;
+  pendingMove: ChessMove | null;
+  isAiReplying: boolean;
+  // Playing back moves that were made on another device
+  isCatchingUp: boolean;
+  // Set when the chain's board doesn't match its own move list
+  desync: BoardMismatchError | null;
+  drawClaim: DrawClaimStatus | null;
+  startNewGame: (options?: { resignFirst?: boolean }) => Promise<void>;
   makeMove: (from: number, to: number, promotion: number) => Promise<void>;
   resign: () => Promise<void>;
   claimDraw: () => Promise<void>;
   refreshGame: () => Promise<void>;
+  retry: () => Promise<void>;
 }
 
 export function useChessGame(
-  sdk: any,
+  sdk: ChessSDK | null,
   address: string | null
 ): UseChessGameResult {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isInitializing, setIsInitializing] = useState(true);
   const [error, setError] = useState('');
+  const [retryAction, setRetryAction] = useState<RetryableAction | null>(null);
   const [hasGame, setHasGame] = useState(false);
+  // Player move shown on the board before the chain confirms it
+  const [pendingMove, setPendingMove] = useState<ChessMove | null>(null);
+  const [isAiReplying, setIsAiReplying] = useState(false);
+  const [isCatchingUp, setIsCatchingUp] = useState(false);
+  const [desync, setDesync] = useState<BoardMismatchError | null>(null);
+
+  // Read by the background sync, which must not race a transaction
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
+  const isBusyRef = useRef(false);
+  isBusyRef.current = isLoading || isCatchingUp;
+  // Move count the views must exceed before the background sync may replace
+  // the optimistic board, set when makeMove stops waiting for them
+  const awaitingViewsRef = useRef<number | null>(null);
+  const isMountedRef = useRef(true);
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const client = useMemo(
+    () => (sdk ? new ChessContractClient(sdk, CHESS_MODULE_ADDRESS, transactionTracker) : null),
+    [sdk]
+  );
 
-  // Fetch current game state
-  const refreshGame = useCallback(async () => {
-    if (!sdk || !address) return;
+  // The half-move clock isn't exposed by the views, so rebuild it from the moves
+  const drawClaim = useMemo(() => {
+    if (!gameState) return null;
+    return getDrawClaimStatus(gameState.board, replayMoves(gameState.moves).halfMoveClock);
+  }, [gameState]);
 
-    setError(''); // Clear any previous error on refresh
+  // Read the current game from the chain (null when the player has none)
+  const fetchGame = useCallback(async (options?: ViewOptions): Promise<GameState | null> => {
+    if (!client || !address) return null;
+    return client.getGameState(address, options);
+  }, [client, address]);
 
+  // Fetch current game state
+  const loadGame = useCallback(async (options?: ViewOptions): Promise<GameState | null> => {
+    awaitingViewsRef.current = null;
     try {
-      // Check if player has a game
-      const hasGameResult = await sdk.view({
-        function: `${CHESS_MODULE_ADDRESS}::chess::has_game`,
-        type_arguments: [],
-        function_arguments: [address],
-      });
-
-      const gameExists = Array.isArray(hasGameResult) ? hasGameResult[0] : hasGameResult;
-      setHasGame(Boolean(gameExists));
-
-      if (!gameExists) {
-        setGameState(null);
-        return;
-      }
-
-      // Get game state
-      const gameResult = await sdk.view({
-        function: `${CHESS_MODULE_ADDRESS}::chess::get_game`,
-        type_arguments: [],
-        function_arguments: [address],
-      });
-
-      // Handle different response formats
-      let boardData: any = [];
-      let isWhiteTurn = true;
-      let status = 0;
-      let moveCount = 0;
-      let whiteKingPos = 4;
-      let blackKingPos = 60;
-
-      if (Array.isArray(gameResult)) {
-        [boardData, isWhiteTurn, status, moveCount, whiteKingPos, blackKingPos] = gameResult;
-      } else if (gameResult && typeof gameResult === 'object') {
-        const r = gameResult as any;
-        boardData = r[0] || r.board || [];
-        isWhiteTurn = r[1] ?? r.is_white_turn ?? true;
-        status = r[2] ?? r.status ?? 0;
-        moveCount = r[3] ?? r.move_count ?? 0;
-        whiteKingPos = r[4] ?? r.white_king_pos ?? 4;
-        blackKingPos = r[5] ?? r.black_king_pos ?? 60;
-      }
-
-      // Parse board data - handle various formats
-      let board: number[] = [];
-
-      if (typeof boardData === 'string' && boardData.startsWith('0x')) {
-        // Board is a hex string - parse each byte
-        const hexStr = boardData.slice(2); // Remove '0x' prefix
-        for (let i = 0; i < hexStr.length; i += 2) {
-          const byte = parseInt(hexStr.slice(i, i + 2), 16);
-          board.push(byte);
-        }
-      } else if (Array.isArray(boardData)) {
-        board = boardData.map((b: any) => Number(b));
-      } else if (boardData && typeof boardData === 'object') {
-        // Convert object with numeric keys to array
-        const keys = Object.keys(boardData).filter(k => !isNaN(Number(k))).sort((a, b) => Number(a) - Number(b));
-        board = keys.map(k => Number((boardData as any)[k]));
-      }
-
-      // Ensure board has 64 squares
-      if (board.length !== 64) {
-        console.warn('[Chess] Invalid board length:', board.length);
-        board = new Array(64).fill(0);
-      }
-
-      // Check if in check
-      let isInCheck = false;
-      try {
-        const checkResult = await sdk.view({
-          function: `${CHESS_MODULE_ADDRESS}::chess::is_in_check`,
-          type_arguments: [],
-          function_arguments: [address],
-        });
-        isInCheck = Array.isArray(checkResult) ? Boolean(checkResult[0]) : Boolean(checkResult);
-      } catch (e) {
-        console.warn('[Chess] Failed to check is_in_check:', e);
-      }
-
-      // Get move history
-      const movesResult = await sdk.view({
-        function: `${CHESS_MODULE_ADDRESS}::chess::get_moves`,
-        type_arguments: [],
-        function_arguments: [address],
-      });
-
-      let movesData: any[] = [];
-      if (Array.isArray(movesResult)) {
-        movesData = movesResult[0] || movesResult || [];
-      } else if (movesResult && typeof movesResult === 'object') {
-        movesData = (movesResult as any)[0] || [];
-      }
-
-      if (!Array.isArray(movesData)) {
-        movesData = [];
-      }
-
-      const moves: ChessMove[] = movesData.map((m: any) => ({
-        from_square: Number(m.from_square ?? m[0] ?? 0),
-        to_square: Number(m.to_square ?? m[1] ?? 0),
-        promotion: Number(m.promotion ?? m[2] ?? 0),
-        captured_piece: Number(m.captured_piece ?? m[3] ?? 0),
-        is_castling: Boolean(m.is_castling ?? m[4] ?? false),
-        is_en_passant: Boolean(m.is_en_passant ?? m[5] ?? false),
-      }));
-
-      setGameState({
-        board,
-        isWhiteTurn: Boolean(isWhiteTurn),
-        status: parseGameStatus(Number(status)),
-        moveCount: Number(moveCount),
-        whiteKingPos: Number(whiteKingPos),
-        blackKingPos: Number(blackKingPos),
-        moves,
-        isInCheck: Boolean(isInCheck),
-      });
+      const state = await fetchGame(options);
+      setHasGame(state !== null);
+      setGameState(state);
+      setDesync(null);
+      return state;
     } catch (err) {
       console.error('[Chess] Failed to fetch game:', err);
-      setHasGame(false);
+      // The game exists, it just can't be shown
+      setHasGame(err instanceof BoardMismatchError);
+      setDesync(err instanceof BoardMismatchError ? err : null);
       setGameState(null);
+      return null;
     }
-  }, [sdk, address]);
+  }, [fetchGame]);
+
+  const refreshGame = useCallback(async () => {
+    if (!client || !address) return;
 
-  // Start a new game
-  const startNewGame = useCallback(async () => {
-    if (!sdk || !address) {
+    setError(''); // Clear any previous error on refresh
+    setRetryAction(null);
+    await loadGame({ fresh: true });
+  }, [client, address, loadGame]);
+
+  // Start a new game. new_game deletes the current game on chain, so a copy
+  // is archived locally first; resignFirst finalizes it as a loss before that.
+  const startNewGame = useCallback(async ({ resignFirst = false }: { resignFirst?: boolean } = {}) => {
+    if (!sdk || !client || !address) {
       setError('Please connect your wallet first');
       return;
     }
 
     setIsLoading(true);
     setError('');
+    setRetryAction(null);
 
+    let resigned = false;
     try {
       await sdk.haptic?.({ type: 'impact', style: 'light' });
 
-      const result = await sdk.sendTransaction({
-        function: `${CHESS_MODULE_ADDRESS}::chess::new_game`,
-        type_arguments: [],
-        arguments: [],
-        title: 'New Chess Game',
-        description: 'Start a new game against the AI',
-      });
+      if (resignFirst) {
+        await client.resign();
+        resigned = true;
+      }
+
+      let current: GameState | null = gameState;
+      try {
+        current = await fetchGame({ fresh: true });
+      } catch (err) {
+        console.warn('[Chess] Failed to fetch game before archiving, using last known state:', err);
+      }
+      // The last known state (or views lagging behind the resignation) can
+      // still show the game as active; it ended as a loss
+      if (resigned && current?.status === 'active') {
+        current = { ...current, status: 'black_win' };
+      }
+      if (current && current.moves.length > 0) {
+        try {
+          await archiveGame(address, current, current.status === 'active' ? 'replaced' : 'finished');
+        } catch (err) {
+          console.error('[Chess] Failed to archive game:', err);
+          // new_game would delete the only copy of a game still in progress
+          if (current.status === 'active') {
+            setError("Couldn't save a copy of your current game, so no new game was started. Try again");
+            setRetryAction({ kind: 'new_game', resignFirst: false });
+            return;
+          }
+        }
+      }
 
-      console.log('[Chess] New game tx:', result?.hash);
+      await client.newGame();
       await refreshGame();
 
       await sdk.notify?.({
@@ -187,49 +220,143 @@ export function useChessGame(
         body: 'You play as white. Good luck!',
       });
     } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : 'Failed to start game';
-      setError(errorMessage);
+      const decoded = decodeChessError(e, { kind: resignFirst && !resigned ? 'resign' : 'new_game' });
+      setError(decoded.message);
+      if (decoded.retryable) setRetryAction({ kind: 'new_game', resignFirst: resignFirst && !resigned });
+      // Show the resignation even if the new game didn't go through
+      if (resigned) await loadGame();
     } finally {
       setIsLoading(false);
     }
-  }, [sdk, address, refreshGame]);
+  }, [sdk, client, address, gameState, fetchGame, loadGame, refreshGame]);
 
-  // Make a move
+  // Make a move. The player's move is applied locally right away and then
+  // replaced by the chain state, which also carries the AI's reply.
   const makeMove = useCallback(
     async (fromSquare: number, toSquare: number, promotion: number) => {
-      if (!sdk || !address) {
+      if (!sdk || !client || !address) {
         setError('Please connect your wallet first');
         return;
       }
 
+      awaitingViewsRef.current = null;
+      const previous = gameState;
+      const position = previous ? positionFromGameState(previous) : undefined;
+      let optimisticMove: ChessMove | null = null;
+
+      if (previous && position) {
+        optimisticMove = createMove(position, fromSquare, toSquare, promotion);
+        const next = applyMove(position, optimisticMove);
+
+        setGameState({
+          ...previous,
+          board: next.board,
+          isWhiteTurn: next.isWhiteTurn,
+          whiteKingPos: next.whiteKingPos,
+          blackKingPos: next.blackKingPos,
+          moveCount: previous.moveCount + 1,
+          moves: [...previous.moves, optimisticMove],
+          isInCheck: false,
+        });
+        setPendingMove(optimisticMove);
+      }
+
       setIsLoading(true);
+      setIsAiReplying(true);
       setError('');
+      setRetryAction(null);
 
       try {
         await sdk.haptic?.({ type: 'impact', style: 'medium' });
+      } catch (err) {
+        console.warn('[Chess] Haptic feedback failed:', err);
+      }
 
-        const fromNotation = squareToNotation(fromSquare);
-        const toNotation = squareToNotation(toSquare);
-
-        const result = await sdk.sendTransaction({
-          function: `${CHESS_MODULE_ADDRESS}::chess::make_move`,
-          type_arguments: [],
-          arguments: [
-            fromSquare.toString(),
-            toSquare.toString(),
-            promotion.toString(),
-          ],
-          title: 'Chess Move',
-          description: `Move ${fromNotation} to ${toNotation}`,
-          gasLimit: 2000000,
+      // Only a failed transaction rolls the move back
+      try {
+        await client.makeMove(fromSquare, toSquare, promotion);
+      } catch (e) {
+        // Roll back to the board before the move
+        setPendingMove(null);
+        if (previous) setGameState(previous);
+
+        const decoded = decodeChessError(e, {
+          kind: 'make_move',
+          move: { from: fromSquare, to: toSquare, promotion },
+          position,
         });
+        setError(`Your move ${squareToNotation(fromSquare)}-${squareToNotation(toSquare)} was not played. ${decoded.message}`);
+        if (decoded.retryable) setRetryAction({ kind: 'make_move', from: fromSquare, to: toSquare, promotion });
+        try {
+          await sdk.haptic?.({ type: 'notification', style: 'error' });
+        } catch (err) {
+          console.warn('[Chess] Haptic feedback failed:', err);
+        }
+        // Refresh to ensure board is in sync with chain
+        await loadGame();
+        setIsAiReplying(false);
+        setIsLoading(false);
+        return;
+      }
+
+      // The AI's reply is part of the same transaction, so all that's left is
+      // waiting for the views to show it
+      setPendingMove(null);
 
-        console.log('[Chess] Move tx:', result?.hash);
-        await refreshGame();
+      try {
+        // Views can lag behind the transaction; keep the optimistic board
+        // until they include the move (or show another game), then take the
+        // chain state as is. If they still don't after RECONCILE_ATTEMPTS,
+        // the background sync picks the move up when they do.
+        let confirmed: GameState | null = null;
+        let isReconciled = false;
+        let delay = RECONCILE_DELAY_MS;
+        for (let attempt = 0; attempt < RECONCILE_ATTEMPTS; attempt++) {
+          if (attempt > 0) {
+            await new Promise(resolve => setTimeout(resolve, delay));
+            delay = Math.min(delay * 2, RECONCILE_MAX_DELAY_MS);
+          }
+          if (!isMountedRef.current) return;
+          try {
+            confirmed = await fetchGame({ fresh: true });
+          } catch (err) {
+            if (err instanceof BoardMismatchError) {
+              confirmed = null;
+              isReconciled = true;
+              break;
+            }
+            console.warn('[Chess] Failed to fetch game after move:', err);
+            continue;
+          }
+          if (!previous || !confirmed || confirmed.moves.length > previous.moves.length || !isMovePrefix(confirmed.moves, previous.moves)) {
+            isReconciled = true;
+            break;
+          }
+        }
+        if (!isMountedRef.current) return;
+        if (!isReconciled && previous) {
+          awaitingViewsRef.current = previous.moves.length;
+          return;
+        }
+
+        if (confirmed) {
+          setHasGame(true);
+          setGameState(confirmed);
+          setDesync(null);
+        } else {
+          confirmed = await loadGame();
+        }
+
+        if (previous && confirmed && optimisticMove) {
+          const recorded = confirmed.moves[previous.moves.length];
+          if (!recorded || recorded.from_square !== optimisticMove.from_square || recorded.to_square !== optimisticMove.to_square) {
+            console.warn('[Chess] Confirmed game differs from the optimistic move', optimisticMove, recorded);
+          }
+        }
 
         // Check if game ended
-        if (gameState) {
-          const newStatus = gameState.status;
+        if (confirmed) {
+          const newStatus = confirmed.status;
           if (newStatus === 'white_win') {
             await sdk.notify?.({
               title: 'Victory!',
@@ -243,34 +370,27 @@ export function useChessGame(
             });
           }
         }
-      } catch (e) {
-        const errorMessage = e instanceof Error ? e.message : 'Invalid move';
-        setError(errorMessage);
-        await sdk.haptic?.({ type: 'notification', style: 'error' });
-        // Refresh to ensure board is in sync with chain
-        await refreshGame();
+      } catch (err) {
+        // The move is on chain; nothing here should undo it or offer a retry
+        console.warn('[Chess] Failed to finish move after confirmation:', err);
       } finally {
+        setIsAiReplying(false);
         setIsLoading(false);
       }
     },
-    [sdk, address, refreshGame, gameState]
+    [sdk, client, address, fetchGame, loadGame, gameState]
   );
 
   // Resign
   const resign = useCallback(async () => {
-    if (!sdk || !address) return;
+    if (!sdk || !client || !address) return;
 
     setIsLoading(true);
     setError('');
+    setRetryAction(null);
 
     try {
-      await sdk.sendTransaction({
-        function: `${CHESS_MODULE_ADDRESS}::chess::resign`,
-        type_arguments: [],
-        arguments: [],
-        title: 'Resign',
-        description: 'Resign the current game',
-      });
+      await client.resign();
 
       await refreshGame();
 
@@ -279,35 +399,113 @@ export function useChessGame(
         body: 'You resigned.',
       });
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'Failed to resign');
+      const decoded = decodeChessError(e, { kind: 'resign' });
+      setError(decoded.message);
+      if (decoded.retryable) setRetryAction({ kind: 'resign' });
     } finally {
       setIsLoading(false);
     }
-  }, [sdk, address, refreshGame]);
+  }, [sdk, client, address, refreshGame]);
 
   // Claim draw
   const claimDraw = useCallback(async () => {
-    if (!sdk || !address) return;
+    if (!client || !address) return;
 
     setIsLoading(true);
     setError('');
+    setRetryAction(null);
 
     try {
-      await sdk.sendTransaction({
-        function: `${CHESS_MODULE_ADDRESS}::chess::claim_draw`,
-        type_arguments: [],
-        arguments: [],
-        title: 'Claim Draw',
-        description: 'Claim a draw by 50-move rule or insufficient material',
-      });
+      await client.claimDraw();
 
       await refreshGame();
     } catch (e) {
-      setError(e instanceof Error ? e.message : 'Cannot claim draw');
+      const decoded = decodeChessError(e, { kind: 'claim_draw', halfMoveClock: drawClaim?.halfMoveClock });
+      setError(decoded.message);
+      if (decoded.retryable) setRetryAction({ kind: 'claim_draw' });
     } finally {
       setIsLoading(false);
     }
-  }, [sdk, address, refreshGame]);
+  }, [client, address, refreshGame, drawClaim]);
+
+  // Pick up changes made outside this hook: another device playing with the
+  // same wallet, or a transaction that confirmed after makeMove stopped
+  // waiting for it. Extra moves are played back one at a time.
+  const syncWithChain = useCallback(async (): Promise<boolean> => {
+    if (!address || isBusyRef.current) return false;
+
+    let chain: GameState | null;
+    try {
+      chain = await fetchGame({ fresh: true });
+    } catch (err) {
+      if (err instanceof BoardMismatchError && !isBusyRef.current) {
+        setHasGame(true);
+        setGameState(null);
+        setDesync(current => (current?.message === err.message ? current : err));
+      }
+      throw err;
+    }
+    // A transaction may have started while the views were in flight
+    if (isBusyRef.current) return false;
+
+    const local = gameStateRef.current;
+    // Still waiting for the views to show a move makeMove saw confirmed
+    const awaiting = awaitingViewsRef.current;
+    if (awaiting !== null && local && chain && chain.moves.length <= awaiting && isMovePrefix(chain.moves, local.moves)) {
+      return false;
+    }
+    awaitingViewsRef.current = null;
+    if (!hasDiverged(local, chain)) return false;
+
+    const steps = local && chain ? catchUpStates(local, chain) : null;
+    if (steps && steps.length > 0) {
+      isBusyRef.current = true;
+      setIsCatchingUp(true);
+      try {
+        for (const step of steps) {
+          setGameState(step);
+          await new Promise(resolve => setTimeout(resolve, CATCH_UP_STEP_MS));
+        }
+      } finally {
+        setIsCatchingUp(false);
+      }
+    }
+
+    // Errors and retries refer to the state that was just replaced
+    setError('');
+    setRetryAction(null);
+    setDesync(null);
+    setHasGame(chain !== null);
+    setGameState(chain);
+    return true;
+  }, [address, fetchGame]);
+
+  useBackgroundSync(syncWithChain, { enabled: !!client && !!address && !isInitializing });
+
+  // Send the last failed transaction again
+  const retry = useCallback(async () => {
+    if (!retryAction) return;
+
+    switch (retryAction.kind) {
+      case 'new_game':
+        return startNewGame({ resignFirst: retryAction.resignFirst });
+      case 'make_move':
+        return makeMove(retryAction.from, retryAction.to, retryAction.promotion);
+      case 'resign':
+        return resign();
+      case 'claim_draw':
+        return claimDraw();
+    }
+  }, [retryAction, startNewGame, makeMove, resign, claimDraw]);
+
+  // Keep a local copy of every finished game; the chain drops it on the
+  // next new_game
+  useEffect(() => {
+    if (!address || !gameState || gameState.status === 'active' || gameState.moves.length === 0) return;
+    archiveGame(address, gameState, 'finished').catch(err => {
+      console.error('[Chess] Failed to archive finished game:', err);
+    });
+  }, [address, gameState]);
 
   // Initial load
   useEffect(() => {
@@ -326,12 +524,19 @@ export function useChessGame(
     isLoading,
     isInitializing,
     error,
+    canRetry: retryAction !== null,
     hasGame,
+    pendingMove,
+    isAiReplying,
+    isCatchingUp,
+    desync,
+    drawClaim,
     startNewGame,
     makeMove,
     resign,
     claimDraw,
     refreshGame,
+    retry,
   };
 }
 
@@ -0,0 +1,55 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useMovementSDK } from '@movement-labs/miniapp-sdk';
+import { CHESS_NETWORK, NODE_URLS, USE_LOCAL_SIMULATOR, SIMULATOR_PLAYER_ADDRESS, SIMULATOR_STRICT_ARITHMETIC } from '../../constants';
+import { createLocalChessSDK } from '../simulator/localSdk';
+import { createRestChessSDK } from '../utils/restSdk';
+import type { ChessSDK } from '../types/sdk';
+
+interface ChessSDKState {
+  sdk: ChessSDK | null;
+  // For view calls only; falls back to the fullnode API without a wallet
+  viewSdk: ChessSDK | null;
+  isConnected: boolean;
+  address: string | null;
+  isSimulator: boolean;
+}
+
+// The Movement SDK, or the local simulator when NEXT_PUBLIC_CHESS_SIMULATOR
+// is set. useMovementSDK is always called to keep hook order stable.
+export function useChessSDK(): ChessSDKState {
+  const movement = useMovementSDK();
+
+  const simulatorSdk = useMemo(
+    () => (USE_LOCAL_SIMULATOR
+      ? createLocalChessSDK({ address: SIMULATOR_PLAYER_ADDRESS, strictArithmetic: SIMULATOR_STRICT_ARITHMETIC })
+      : null),
+    []
+  );
+
+  const restSdk = useMemo(
+    () => (!USE_LOCAL_SIMULATOR && NODE_URLS[CHESS_NETWORK] ? createRestChessSDK(NODE_URLS[CHESS_NETWORK]) : null),
+    []
+  );
+
+  if (simulatorSdk) {
+    return {
+      sdk: simulatorSdk,
+      viewSdk: simulatorSdk,
+      isConnected: true,
+      address: SIMULATOR_PLAYER_ADDRESS,
+      isSimulator: true,
+    };
+  }
+
+  return {
+    sdk: movement.sdk,
+    viewSdk: movement.isConnected && movement.sdk ? movement.sdk : restSdk ?? movement.sdk,
+    isConnected: movement.isConnected,
+    address: movement.address ?? null,
+    isSimulator: false,
+  };
+}
+
+export default useChessSDK;
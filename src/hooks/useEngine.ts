@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useCallback, useMemo, useRef } from 'react';
+import type { ChessMove, Position } from '../types/chess';
+import { SEARCH_DEPTH } from '../utils/engine';
+import type { Analysis, EngineRequest, EngineResponse } from '../types/engine';
+
+type EngineResult = Exclude<EngineResponse, { type: 'error' }>;
+
+interface PendingRequest {
+  resolve: (response: EngineResult) => void;
+  reject: (err: Error) => void;
+}
+
+// Client for the engine worker. The worker is created on first use and
+// terminated on unmount; outstanding requests are rejected then.
+export function useEngine() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const nextIdRef = useRef(1);
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pending.forEach(({ reject }) => reject(new Error('Engine stopped')));
+      pending.clear();
+    };
+  }, []);
+
+  const getWorker = useCallback((): Worker => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('../workers/engine.worker.ts', import.meta.url));
+
+      worker.addEventListener('message', (event: MessageEvent<EngineResponse>) => {
+        const response = event.data;
+        const request = pendingRef.current.get(response.id);
+        if (!request) return;
+
+        pendingRef.current.delete(response.id);
+        if (response.type === 'error') {
+          request.reject(new Error(response.message));
+        } else {
+          request.resolve(response);
+        }
+      });
+
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, []);
+
+  const send = useCallback(
+    (request: EngineRequest): Promise<EngineResult> =>
+      new Promise((resolve, reject) => {
+        pendingRef.current.set(request.id, { resolve, reject });
+        getWorker().postMessage(request);
+      }),
+    [getWorker]
+  );
+
+  const sendForMove = useCallback(
+    async (request: EngineRequest): Promise<ChessMove | null> => {
+      const response = await send(request);
+      return response.type === 'move' ? response.move : null;
+    },
+    [send]
+  );
+
+  // Best move for white
+  const suggestMove = useCallback(
+    (position: Position) => sendForMove({ id: nextIdRef.current++, type: 'hint', position }),
+    [sendForMove]
+  );
+
+  // The reply the contract's AI will play after `move`
+  const previewReply = useCallback(
+    (position: Position, move: ChessMove, moveCount: number) =>
+      sendForMove({ id: nextIdRef.current++, type: 'preview', position, move, moveCount }),
+    [sendForMove]
+  );
+
+  // Score and principal variation, queued behind any other request
+  const analyze = useCallback(
+    async (position: Position, depth: number = SEARCH_DEPTH): Promise<Analysis> => {
+      const response = await send({ id: nextIdRef.current++, type: 'analyze', position, depth });
+      if (response.type !== 'analysis') throw new Error('Unexpected engine response');
+      return response.analysis;
+    },
+    [send]
+  );
+
+  return useMemo(() => ({ suggestMove, previewReply, analyze }), [suggestMove, previewReply, analyze]);
+}
+
+export default useEngine;
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useEngine } from './useEngine';
+import { replayPositions } from '../utils/replay';
+import { buildReview } from '../utils/review';
+import type { ChessMove, GameStatus } from '../types/chess';
+import type { Analysis } from '../types/engine';
+import type { GameReview } from '../types/review';
+
+// Analyses every position of a finished game one at a time and builds the
+// review once all of them are done. Progress is the share of plies analysed.
+export function useGameReview(moves: ChessMove[], status: GameStatus, enabled: boolean) {
+  const engine = useEngine();
+  const [review, setReview] = useState<GameReview | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refreshes return equal move lists as new arrays, so key on content
+  const key = moves.map(m => `${m.from_square}-${m.to_square}-${m.promotion}`).join(',');
+  const movesRef = useRef(moves);
+  movesRef.current = moves;
+
+  useEffect(() => {
+    const moves = movesRef.current;
+    setReview(null);
+    setProgress(0);
+    setError(null);
+
+    if (!enabled || status === 'active' || moves.length === 0) {
+      setIsRunning(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const run = async () => {
+      setIsRunning(true);
+      try {
+        const positions = replayPositions(moves);
+        const analyses: Analysis[] = [];
+
+        for (const position of positions) {
+          const analysis = await engine.analyze(position);
+          if (cancelled) return;
+          analyses.push(analysis);
+          setProgress(analyses.length / positions.length);
+        }
+
+        setReview(buildReview(moves, analyses, status));
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Review failed');
+      } finally {
+        if (!cancelled) setIsRunning(false);
+      }
+    };
+
+    run();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, status, enabled, engine]);
+
+  return { review, progress, isRunning, error };
+}
+
+export default useGameReview;
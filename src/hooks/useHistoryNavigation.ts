@@ -0,0 +1,91 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { replayPositions } from '../utils/replay';
+import type { ChessMove, Position } from '../types/chess';
+
+interface UseHistoryNavigationResult {
+  ply: number;
+  latestPly: number;
+  isViewingLatest: boolean;
+  position: Position;
+  lastMove: { from: number; to: number } | null;
+  goToPly: (ply: number) => void;
+  goFirst: () => void;
+  goPrev: () => void;
+  goNext: () => void;
+  goLast: () => void;
+}
+
+export function useHistoryNavigation(moves: ChessMove[]): UseHistoryNavigationResult {
+  // null follows the live position as new moves arrive
+  const [viewedPly, setViewedPly] = useState<number | null>(null);
+
+  // A replaced move list (new game, rolled back move) goes back to following
+  // the live position; new moves appended to the same game keep the view
+  const previousMovesRef = useRef(moves);
+  useEffect(() => {
+    const previous = previousMovesRef.current;
+    previousMovesRef.current = moves;
+
+    const isContinuation = moves.length >= previous.length && previous.every((move, i) =>
+      move.from_square === moves[i].from_square &&
+      move.to_square === moves[i].to_square &&
+      move.promotion === moves[i].promotion
+    );
+    if (!isContinuation) setViewedPly(null);
+  }, [moves]);
+
+  const positions = useMemo(() => replayPositions(moves), [moves]);
+  const latestPly = moves.length;
+  const ply = viewedPly === null ? latestPly : Math.min(viewedPly, latestPly);
+
+  const goToPly = useCallback((target: number) => {
+    const clamped = Math.max(0, Math.min(target, latestPly));
+    setViewedPly(clamped >= latestPly ? null : clamped);
+  }, [latestPly]);
+
+  const goFirst = useCallback(() => goToPly(0), [goToPly]);
+  const goPrev = useCallback(() => goToPly(ply - 1), [goToPly, ply]);
+  const goNext = useCallback(() => goToPly(ply + 1), [goToPly, ply]);
+  const goLast = useCallback(() => goToPly(latestPly), [goToPly, latestPly]);
+
+  // Arrow keys step through the game, Home/End jump to either end
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+      switch (e.key) {
+        case 'ArrowLeft': goPrev(); break;
+        case 'ArrowRight': goNext(); break;
+        case 'Home': goFirst(); break;
+        case 'End': goLast(); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goFirst, goPrev, goNext, goLast]);
+
+  const lastMove = ply > 0
+    ? { from: moves[ply - 1].from_square, to: moves[ply - 1].to_square }
+    : null;
+
+  return {
+    ply,
+    latestPly,
+    isViewingLatest: ply === latestPly,
+    position: positions[ply],
+    lastMove,
+    goToPly,
+    goFirst,
+    goPrev,
+    goNext,
+    goLast,
+  };
+}
+
+export default useHistoryNavigation;
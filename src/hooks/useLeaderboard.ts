@@ -0,0 +1,112 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ChessContractClient } from '../utils/contract';
+import { findEntry, loadLeaderboardSnapshot, saveLeaderboardSnapshot, withRankChanges } from '../utils/leaderboard';
+import type { LeaderboardEntry, PlayerStats } from '../types/chess';
+import type { LeaderboardSnapshot, RankedLeaderboardEntry } from '../types/leaderboard';
+import type { ChessSDK } from '../types/sdk';
+
+// Ranks from the previous visit, read once per page load so arrows survive
+// refreshes; every fetch then stores the latest ranks for next time
+let baseline: LeaderboardSnapshot | null | undefined;
+
+interface UseLeaderboardOptions {
+  // Refetch on an interval while mounted; 0 disables it
+  autoRefreshMs?: number;
+}
+
+interface UseLeaderboardResult {
+  entries: RankedLeaderboardEntry[];
+  playerStats: PlayerStats | null;
+  playerEntry: RankedLeaderboardEntry | null;
+  isLoading: boolean;
+  isRefreshing: boolean;
+  error: string | null;
+  lastUpdated: number | null;
+  refresh: () => Promise<void>;
+}
+
+export function useLeaderboard(
+  sdk: ChessSDK | null,
+  address: string | null,
+  { autoRefreshMs = 0 }: UseLeaderboardOptions = {}
+): UseLeaderboardResult {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [playerStats, setPlayerStats] = useState<PlayerStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [previous, setPrevious] = useState<LeaderboardSnapshot | null>(null);
+
+  const client = useMemo(() => (sdk ? new ChessContractClient(sdk) : null), [sdk]);
+
+  // Cached results are shared with every other component reading these
+  // views; fresh skips the cache for manual and timed refreshes
+  const load = useCallback(
+    async (fresh: boolean) => {
+      if (!client) return;
+
+      if (fresh) setIsRefreshing(true);
+      try {
+        const [leaderboardEntries, stats] = await Promise.all([
+          client.getLeaderboard({ fresh }),
+          address ? client.getPlayerStats(address, { fresh }) : Promise.resolve(null),
+        ]);
+        saveLeaderboardSnapshot(leaderboardEntries);
+
+        setEntries(leaderboardEntries);
+        setPlayerStats(stats);
+        setLastUpdated(Date.now());
+        setError(null);
+      } catch (err) {
+        console.error('[Chess] Failed to fetch leaderboard:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load leaderboard');
+      } finally {
+        setIsLoading(false);
+        setIsRefreshing(false);
+      }
+    },
+    [client, address]
+  );
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  useEffect(() => {
+    if (baseline === undefined) baseline = loadLeaderboardSnapshot();
+    setPrevious(baseline);
+  }, []);
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  // Pick up results fetched elsewhere, e.g. after a game is finalized
+  useEffect(() => {
+    if (!client) return;
+    return client.onViewChange(['get_leaderboard', 'get_player_stats'], () => load(false));
+  }, [client, load]);
+
+  useEffect(() => {
+    if (autoRefreshMs <= 0) return;
+    const timer = setInterval(() => load(true), autoRefreshMs);
+    return () => clearInterval(timer);
+  }, [load, autoRefreshMs]);
+
+  const ranked = useMemo(() => withRankChanges(entries, previous), [entries, previous]);
+  const playerEntry = useMemo(() => findEntry(ranked, address), [ranked, address]);
+
+  return {
+    entries: ranked,
+    playerStats,
+    playerEntry,
+    isLoading,
+    isRefreshing,
+    error,
+    lastUpdated,
+    refresh,
+  };
+}
+
+export default useLeaderboard;
@@ -0,0 +1,60 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { NotationStyle } from '../types/chess';
+
+const STORAGE_KEY = 'chess:notation-style';
+const STYLES: NotationStyle[] = ['san', 'long', 'figurine'];
+const DEFAULT_STYLE: NotationStyle = 'san';
+
+// One preference shared by every component, kept in localStorage so other
+// tabs pick up changes too
+const listeners = new Set<() => void>();
+let current: NotationStyle | null = null;
+
+function readSavedStyle(): NotationStyle {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY) as NotationStyle | null;
+    return saved && STYLES.includes(saved) ? saved : DEFAULT_STYLE;
+  } catch {
+    return DEFAULT_STYLE;
+  }
+}
+
+function getSnapshot(): NotationStyle {
+  if (current === null) current = readSavedStyle();
+  return current;
+}
+
+function handleStorage(e: StorageEvent) {
+  if (e.key !== STORAGE_KEY && e.key !== null) return;
+  current = readSavedStyle();
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  if (listeners.size === 0) window.addEventListener('storage', handleStorage);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('storage', handleStorage);
+  };
+}
+
+function setStyle(next: NotationStyle) {
+  current = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, next);
+  } catch {
+    // Ignore
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function useNotationStyle(): [NotationStyle, (style: NotationStyle) => void] {
+  // The server snapshot keeps the first client render matching the server's
+  const style = useSyncExternalStore(subscribe, getSnapshot, () => DEFAULT_STYLE);
+  return [style, setStyle];
+}
+
+export default useNotationStyle;
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { ChessContractClient } from '../utils/contract';
+import { applyGameResult, projectRank } from '../utils/scoring';
+import type { GameStatus, LeaderboardEntry, PlayerStats, ScoringState } from '../types/chess';
+import type { ChessSDK } from '../types/sdk';
+import type { ScoreProjection } from '../types/stats';
+
+interface UseScoreProjectionResult {
+  projections: ScoreProjection[] | null;
+  currentRank: number | null;
+  // get_player_stats doesn't return the streak, so it comes from the archive
+  isStreakEstimated: boolean;
+}
+
+const OUTCOMES: { outcome: ScoreProjection['outcome']; status: GameStatus }[] = [
+  { outcome: 'win', status: 'white_win' },
+  { outcome: 'draw', status: 'draw' },
+  { outcome: 'resign', status: 'black_win' },
+];
+
+// Points and leaderboard rank for each way the current game could end.
+// Stats are re-read whenever the game status changes.
+export function useScoreProjection(
+  sdk: ChessSDK | null,
+  address: string | null,
+  status: GameStatus | null,
+  moveCount: number,
+  localStreak: number
+): UseScoreProjectionResult {
+  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[] | null>(null);
+  // Bumped when another component fetches newer scores
+  const [version, setVersion] = useState(0);
+
+  const client = useMemo(() => (sdk ? new ChessContractClient(sdk) : null), [sdk]);
+
+  useEffect(() => {
+    if (!client) return;
+    return client.onViewChange(['get_leaderboard', 'get_player_stats'], () => setVersion(v => v + 1));
+  }, [client]);
+
+  useEffect(() => {
+    if (!client || !address) return;
+
+    let cancelled = false;
+    Promise.all([client.getPlayerStats(address), client.getLeaderboard()])
+      .then(([playerStats, entries]) => {
+        if (cancelled) return;
+        setStats(playerStats);
+        setLeaderboard(entries);
+      })
+      .catch(err => console.error('[Chess] Failed to fetch scoring data:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, address, status, version]);
+
+  const isStreakEstimated = stats?.currentStreak === undefined;
+
+  const projections = useMemo(() => {
+    if (!stats || !address) return null;
+
+    const state: ScoringState = {
+      totalPoints: stats.totalPoints,
+      currentStreak: stats.currentStreak ?? localStreak,
+      bestStreak: stats.bestStreak ?? 0,
+      fastestWinMoves: stats.fastestWinMoves ?? 0,
+    };
+
+    // A win or draw is decided by the player's next move
+    return OUTCOMES.map(({ outcome, status: result }) => {
+      const after = applyGameResult(state, result, outcome === 'resign' ? moveCount : moveCount + 1);
+      return {
+        outcome,
+        delta: after.totalPoints - state.totalPoints,
+        totalPoints: after.totalPoints,
+        rank: leaderboard ? projectRank(leaderboard, address, after.totalPoints) : null,
+      };
+    });
+  }, [stats, leaderboard, address, moveCount, localStreak]);
+
+  const currentRank = useMemo(() => {
+    if (!leaderboard || !address) return null;
+    return leaderboard.find(entry => entry.address.toLowerCase() === address.toLowerCase())?.rank ?? null;
+  }, [leaderboard, address]);
+
+  return { projections, currentRank, isStreakEstimated };
+}
+
+export default useScoreProjection;
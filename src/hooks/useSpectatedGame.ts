@@ -0,0 +1,93 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { BoardMismatchError, ChessContractClient } from '../utils/contract';
+import { useBackgroundSync } from './useBackgroundSync';
+import type { GameState } from '../types/chess';
+import type { ChessSDK } from '../types/sdk';
+
+interface UseSpectatedGameResult {
+  gameState: GameState | null;
+  hasGame: boolean;
+  isLoading: boolean;
+  error: string;
+  desync: BoardMismatchError | null;
+  lastUpdated: number | null;
+  refresh: () => Promise<void>;
+}
+
+// Read-only view of any player's current game, kept in sync while mounted
+export function useSpectatedGame(sdk: ChessSDK | null, player: string | null): UseSpectatedGameResult {
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [desync, setDesync] = useState<BoardMismatchError | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+
+  const lastSnapshotRef = useRef<string | null>(null);
+  // Only the latest request may update state, so a slow response for the
+  // previous player can't land after the route changes
+  const requestIdRef = useRef(0);
+
+  const client = useMemo(() => (sdk ? new ChessContractClient(sdk) : null), [sdk]);
+
+  // Resolves to whether the game changed, so quiet games are polled less
+  const load = useCallback(async (): Promise<boolean> => {
+    const requestId = ++requestIdRef.current;
+    if (!client || !player) {
+      setIsLoading(false);
+      return false;
+    }
+
+    try {
+      const next = await client.getGameState(player, { fresh: true });
+      if (requestIdRef.current !== requestId) return false;
+      const snapshot = JSON.stringify(next);
+      const changed = snapshot !== lastSnapshotRef.current;
+      lastSnapshotRef.current = snapshot;
+      if (changed) setGameState(next);
+      setError('');
+      setDesync(null);
+      setLastUpdated(Date.now());
+      return changed;
+    } catch (err) {
+      if (requestIdRef.current !== requestId) return false;
+      console.error('[Chess] Failed to fetch watched game:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load game');
+      if (err instanceof BoardMismatchError) {
+        lastSnapshotRef.current = null;
+        setGameState(null);
+        setDesync(current => (current?.message === err.message ? current : err));
+      }
+      return false;
+    } finally {
+      if (requestIdRef.current === requestId) setIsLoading(false);
+    }
+  }, [client, player]);
+
+  const refresh = useCallback(async () => {
+    await load();
+  }, [load]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setGameState(null);
+    setDesync(null);
+    lastSnapshotRef.current = null;
+    load();
+  }, [load]);
+
+  useBackgroundSync(load, { enabled: !!client && !!player });
+
+  return {
+    gameState,
+    hasGame: gameState !== null,
+    isLoading,
+    error,
+    desync,
+    lastUpdated,
+    refresh,
+  };
+}
+
+export default useSpectatedGame;
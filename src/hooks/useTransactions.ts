@@ -0,0 +1,18 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { transactionTracker } from '../utils/transactions';
+import type { TrackedTransaction } from '../types/transactions';
+
+const NO_TRANSACTIONS: TrackedTransaction[] = [];
+
+// Transactions recorded by the shared tracker this session, newest first
+export function useTransactions(): TrackedTransaction[] {
+  return useSyncExternalStore(
+    transactionTracker.subscribe,
+    transactionTracker.getSnapshot,
+    () => NO_TRANSACTIONS
+  );
+}
+
+export default useTransactions;
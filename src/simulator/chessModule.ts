@@ -0,0 +1,285 @@
+import {
+  EMPTY, PAWN, WHITE, BLACK, NO_SQUARE,
+  STATUS_ACTIVE, STATUS_WHITE_WIN, STATUS_BLACK_WIN, STATUS_DRAW, STATUS_STALEMATE,
+  E_GAME_NOT_FOUND, E_NOT_YOUR_TURN, E_INVALID_MOVE, E_GAME_OVER, E_INVALID_SQUARE,
+  E_NO_PIECE, E_WRONG_COLOR, E_CANNOT_CLAIM_DRAW, E_NO_LEGAL_MOVES,
+} from '../types/chess';
+import type { ChessMove, Position } from '../types/chess';
+import { INITIAL_BOARD, applyMove, createMove } from '../utils/replay';
+import { hasAnyLegalMove, isInsufficientMaterial, isSquareAttacked, isValidMove } from '../utils/rules';
+import { EngineArithmeticError, generateAiMove } from '../utils/engine';
+import type { AiMoveOptions } from '../utils/engine';
+import { ABORT_CODE_NAMES } from '../utils/errors';
+import { parseGameStatus } from '../utils/chess';
+import { applyGameResult, updateLeaderboard } from '../utils/scoring';
+
+// In-memory TypeScript implementation of the chess module in
+// move/sources/chess.move. Entry functions mutate a ChainState the same way
+// the contract mutates global storage, and raise MoveAbortError where the
+// contract would abort.
+
+export class MoveAbortError extends Error {
+  constructor(public readonly code: number, moduleAddress: string) {
+    super(`Move abort in ${moduleAddress}::chess: ${ABORT_CODE_NAMES[code] ?? 'UNKNOWN'}(0x${code.toString(16)})`);
+    this.name = 'MoveAbortError';
+  }
+}
+
+// The VM stopped the transaction on a u64 overflow or underflow
+export class MoveArithmeticError extends Error {
+  constructor(functionName: string, moduleAddress: string) {
+    super(`Execution failed in ${moduleAddress}::chess::${functionName}: ARITHMETIC_ERROR`);
+    this.name = 'MoveArithmeticError';
+  }
+}
+
+export interface SimGame {
+  board: number[];
+  isWhiteTurn: boolean;
+  status: number;
+  moveCount: number;
+  moves: ChessMove[];
+  whiteKingPos: number;
+  blackKingPos: number;
+  lastPawnDoubleMove: number;
+  halfMoveClock: number;
+  createdAt: number;
+}
+
+export interface SimPlayerStats {
+  wins: number;
+  losses: number;
+  draws: number;
+  totalPoints: number;
+  currentStreak: number;
+  bestStreak: number;
+  fastestWinMoves: number;
+  gamesPlayed: number;
+}
+
+export interface ChainState {
+  games: Record<string, SimGame>;
+  stats: Record<string, SimPlayerStats>;
+  leaderboard: { topPlayers: string[]; playerPoints: number[] };
+}
+
+export function createChainState(): ChainState {
+  return {
+    games: {},
+    stats: {},
+    leaderboard: { topPlayers: [], playerPoints: [] },
+  };
+}
+
+function toPosition(game: SimGame): Position {
+  return {
+    board: game.board,
+    isWhiteTurn: game.isWhiteTurn,
+    whiteKingPos: game.whiteKingPos,
+    blackKingPos: game.blackKingPos,
+    enPassantSquare: game.lastPawnDoubleMove,
+  };
+}
+
+// ============ INTERNAL ============
+
+function updateGameStatus(game: SimGame) {
+  const isWhite = game.isWhiteTurn;
+
+  if (!hasAnyLegalMove(toPosition(game), isWhite)) {
+    const kingPos = isWhite ? game.whiteKingPos : game.blackKingPos;
+    if (isSquareAttacked(game.board, kingPos, !isWhite)) {
+      game.status = isWhite ? STATUS_BLACK_WIN : STATUS_WHITE_WIN;
+    } else {
+      game.status = STATUS_STALEMATE;
+    }
+    return;
+  }
+
+  if (game.halfMoveClock >= 100 || isInsufficientMaterial(game.board)) {
+    game.status = STATUS_DRAW;
+  }
+}
+
+function executeValidatedMove(
+  game: SimGame,
+  from: number,
+  to: number,
+  promotion: number,
+  isWhite: boolean,
+  moduleAddress: string
+) {
+  const piece = game.board[from];
+  const pieceType = piece & 7;
+
+  if (pieceType === EMPTY) throw new MoveAbortError(E_NO_PIECE, moduleAddress);
+  if ((piece & 8) !== (isWhite ? WHITE : BLACK)) throw new MoveAbortError(E_WRONG_COLOR, moduleAddress);
+  const position = toPosition(game);
+  if (!isValidMove(position, from, to, promotion, isWhite)) {
+    throw new MoveAbortError(E_INVALID_MOVE, moduleAddress);
+  }
+
+  const move = createMove(position, from, to, promotion);
+  const next = applyMove(position, move);
+  game.board = next.board;
+  game.whiteKingPos = next.whiteKingPos;
+  game.blackKingPos = next.blackKingPos;
+  game.lastPawnDoubleMove = next.enPassantSquare;
+  game.halfMoveClock = pieceType === PAWN || move.captured_piece !== EMPTY ? 0 : game.halfMoveClock + 1;
+  game.moves.push(move);
+  game.moveCount += 1;
+  game.isWhiteTurn = !isWhite;
+
+  updateGameStatus(game);
+}
+
+function finalizeGame(state: ChainState, player: string) {
+  const game = state.games[player];
+  const stats = state.stats[player];
+  stats.gamesPlayed += 1;
+
+  if (game.status === STATUS_WHITE_WIN) stats.wins += 1;
+  else if (game.status === STATUS_BLACK_WIN) stats.losses += 1;
+  else stats.draws += 1;
+
+  Object.assign(stats, applyGameResult(stats, parseGameStatus(game.status), game.moveCount));
+
+  const { topPlayers, playerPoints } = state.leaderboard;
+  state.leaderboard = updateLeaderboard(topPlayers, playerPoints, player, stats.totalPoints);
+}
+
+function borrowActiveGame(state: ChainState, player: string, moduleAddress: string): SimGame {
+  const game = state.games[player];
+  if (!game) throw new MoveAbortError(E_GAME_NOT_FOUND, moduleAddress);
+  if (game.status !== STATUS_ACTIVE) throw new MoveAbortError(E_GAME_OVER, moduleAddress);
+  return game;
+}
+
+// ============ ENTRY FUNCTIONS ============
+
+export function newGame(state: ChainState, player: string) {
+  if (!state.stats[player]) {
+    state.stats[player] = {
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      totalPoints: 0,
+      currentStreak: 0,
+      bestStreak: 0,
+      fastestWinMoves: 0,
+      gamesPlayed: 0,
+    };
+  }
+
+  // Any existing game is dropped without being finalized
+  state.games[player] = {
+    board: [...INITIAL_BOARD],
+    isWhiteTurn: true,
+    status: STATUS_ACTIVE,
+    moveCount: 0,
+    moves: [],
+    whiteKingPos: 4,
+    blackKingPos: 60,
+    lastPawnDoubleMove: NO_SQUARE,
+    halfMoveClock: 0,
+    createdAt: Date.now() * 1000,
+  };
+}
+
+export function makeMove(
+  state: ChainState,
+  player: string,
+  from: number,
+  to: number,
+  promotion: number,
+  moduleAddress: string,
+  aiOptions: AiMoveOptions = {}
+) {
+  const game = borrowActiveGame(state, player, moduleAddress);
+  if (!game.isWhiteTurn) throw new MoveAbortError(E_NOT_YOUR_TURN, moduleAddress);
+  if (from >= 64 || to >= 64) throw new MoveAbortError(E_INVALID_SQUARE, moduleAddress);
+
+  // Player move (white)
+  executeValidatedMove(game, from, to, promotion, true, moduleAddress);
+  if (game.status !== STATUS_ACTIVE) {
+    finalizeGame(state, player);
+    return;
+  }
+
+  // AI reply (black)
+  let aiMove: ChessMove | null;
+  try {
+    aiMove = generateAiMove(toPosition(game), game.moveCount, aiOptions);
+  } catch (err) {
+    if (err instanceof EngineArithmeticError) throw new MoveArithmeticError(err.functionName, moduleAddress);
+    throw err;
+  }
+  if (!aiMove) throw new MoveAbortError(E_NO_LEGAL_MOVES, moduleAddress);
+
+  executeValidatedMove(game, aiMove.from_square, aiMove.to_square, aiMove.promotion, false, moduleAddress);
+  if (game.status !== STATUS_ACTIVE) {
+    finalizeGame(state, player);
+  }
+}
+
+export function resign(state: ChainState, player: string, moduleAddress: string) {
+  const game = borrowActiveGame(state, player, moduleAddress);
+  game.status = STATUS_BLACK_WIN;
+  finalizeGame(state, player);
+}
+
+export function claimDraw(state: ChainState, player: string, moduleAddress: string) {
+  const game = borrowActiveGame(state, player, moduleAddress);
+  if (!(game.halfMoveClock >= 100 || isInsufficientMaterial(game.board))) {
+    throw new MoveAbortError(E_CANNOT_CLAIM_DRAW, moduleAddress);
+  }
+  game.status = STATUS_DRAW;
+  finalizeGame(state, player);
+}
+
+// ============ VIEW FUNCTIONS ============
+// Return values use the JSON encoding of the REST API: u8 as numbers,
+// u64 as strings and vector<u8> as 0x-prefixed hex.
+
+function toHex(bytes: number[]): string {
+  return `0x${bytes.map(b => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function getGame(state: ChainState, player: string): unknown[] {
+  const game = state.games[player];
+  if (!game) return ['0x', true, 0, '0', NO_SQUARE, NO_SQUARE];
+  return [
+    toHex(game.board),
+    game.isWhiteTurn,
+    game.status,
+    String(game.moveCount),
+    game.whiteKingPos,
+    game.blackKingPos,
+  ];
+}
+
+export function getMoves(state: ChainState, player: string): unknown[] {
+  const game = state.games[player];
+  return [game ? game.moves.map(m => ({ ...m })) : []];
+}
+
+export function getPlayerStats(state: ChainState, player: string): unknown[] {
+  const stats = state.stats[player];
+  if (!stats) return ['0', '0', '0', '0', '0'];
+  return [stats.wins, stats.losses, stats.draws, stats.totalPoints, stats.gamesPlayed].map(String);
+}
+
+export function getLeaderboard(state: ChainState): unknown[] {
+  return [[...state.leaderboard.topPlayers], state.leaderboard.playerPoints.map(String)];
+}
+
+export function isInCheck(state: ChainState, player: string): unknown[] {
+  const game = state.games[player];
+  if (!game) return [false];
+  const kingPos = game.isWhiteTurn ? game.whiteKingPos : game.blackKingPos;
+  return [isSquareAttacked(game.board, kingPos, !game.isWhiteTurn)];
+}
+
+export function hasGame(state: ChainState, player: string): unknown[] {
+  return [Boolean(state.games[player])];
+}
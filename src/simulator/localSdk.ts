@@ -0,0 +1,152 @@
+import { CHESS_MODULE_ADDRESS } from '../../constants';
+import type { ChessSDK, TransactionRequest, ViewRequest } from '../types/sdk';
+import {
+  createChainState,
+  newGame,
+  makeMove,
+  resign,
+  claimDraw,
+  getGame,
+  getMoves,
+  getPlayerStats,
+  getLeaderboard,
+  isInCheck,
+  hasGame,
+} from './chessModule';
+import type { ChainState } from './chessModule';
+
+const STORAGE_KEY = 'chess:simulator-state';
+
+// Rough stand-ins for network round trips
+const VIEW_LATENCY_MS = 50;
+const TRANSACTION_LATENCY_MS = 400;
+
+interface LocalChessSDKOptions {
+  address: string;
+  moduleAddress?: string;
+  // Abort make_move with ARITHMETIC_ERROR wherever the contract's AI search
+  // would, instead of letting the game go on
+  strictArithmetic?: boolean;
+}
+
+// Shared across SDK instances so every page sees the same chain. Falls back to
+// memory only when localStorage is unavailable.
+let memoryState: ChainState | null = null;
+
+function loadState(): ChainState {
+  if (typeof window !== 'undefined') {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      if (raw) return JSON.parse(raw) as ChainState;
+    } catch {
+      // Corrupt or inaccessible storage - start over
+    }
+  }
+  return memoryState ? (JSON.parse(JSON.stringify(memoryState)) as ChainState) : createChainState();
+}
+
+function saveState(state: ChainState) {
+  memoryState = state;
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Quota or privacy mode - keep the in-memory copy
+  }
+}
+
+export function resetSimulator() {
+  memoryState = null;
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Ignore
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function randomHash(): string {
+  const bytes = new Uint8Array(32);
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return `0x${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Split "<address>::chess::<name>" and check it targets the simulated module
+function parseFunctionId(functionId: string, moduleAddress: string): string {
+  const [addr, module, name] = functionId.split('::');
+  if (addr?.toLowerCase() !== moduleAddress.toLowerCase() || module !== 'chess' || !name) {
+    throw new Error(`Simulator: unknown function ${functionId}`);
+  }
+  return name;
+}
+
+function toU8(value: unknown): number {
+  const num = Number(value);
+  if (!Number.isInteger(num) || num < 0 || num > 255) {
+    throw new Error(`Simulator: invalid u8 argument ${String(value)}`);
+  }
+  return num;
+}
+
+export function createLocalChessSDK({
+  address,
+  moduleAddress = CHESS_MODULE_ADDRESS,
+  strictArithmetic = false,
+}: LocalChessSDKOptions): ChessSDK {
+  async function view(request: ViewRequest): Promise<unknown> {
+    await sleep(VIEW_LATENCY_MS);
+
+    const name = parseFunctionId(request.function, moduleAddress);
+    const state = loadState();
+    const player = String(request.function_arguments[0] ?? '');
+
+    switch (name) {
+      case 'get_game': return getGame(state, player);
+      case 'get_moves': return getMoves(state, player);
+      case 'get_player_stats': return getPlayerStats(state, player);
+      case 'get_leaderboard': return getLeaderboard(state);
+      case 'is_in_check': return isInCheck(state, player);
+      case 'has_game': return hasGame(state, player);
+      default: throw new Error(`Simulator: ${name} is not a view function`);
+    }
+  }
+
+  async function sendTransaction(request: TransactionRequest): Promise<unknown> {
+    await sleep(TRANSACTION_LATENCY_MS);
+
+    const name = parseFunctionId(request.function, moduleAddress);
+    // Work on a copy so an abort leaves storage untouched
+    const state = loadState();
+    const args = request.arguments;
+
+    switch (name) {
+      case 'new_game':
+        newGame(state, address);
+        break;
+      case 'make_move':
+        makeMove(state, address, toU8(args[0]), toU8(args[1]), toU8(args[2]), moduleAddress, { strictArithmetic });
+        break;
+      case 'resign':
+        resign(state, address, moduleAddress);
+        break;
+      case 'claim_draw':
+        claimDraw(state, address, moduleAddress);
+        break;
+      default:
+        throw new Error(`Simulator: ${name} is not an entry function`);
+    }
+
+    saveState(state);
+    return { hash: randomHash() };
+  }
+
+  return { view, sendTransaction };
+}
@@ -0,0 +1,16 @@
+import type { GameState } from './chess';
+
+// Why a game was copied into the local archive
+export type ArchiveReason = 'finished' | 'replaced';
+
+// Outcome from the player's side; unfinished games were replaced mid-play
+export type ArchiveResult = 'won' | 'lost' | 'drawn' | 'unfinished';
+
+export interface ArchivedGame {
+  id: string;
+  // Lowercased wallet address
+  address: string;
+  reason: ArchiveReason;
+  archivedAt: number;
+  game: GameState;
+}
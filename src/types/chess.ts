@@ -11,6 +11,12 @@ export const KING = 6;
 export const WHITE = 0;
 export const BLACK = 8;
 
+// Flags
+export const HAS_MOVED = 16;
+
+// Sentinel for "no square" (e.g. no en passant target)
+export const NO_SQUARE = 255;
+
 // Game status
 export const STATUS_ACTIVE = 0;
 export const STATUS_WHITE_WIN = 1;
@@ -18,6 +24,19 @@ export const STATUS_BLACK_WIN = 2;
 export const STATUS_DRAW = 3;
 export const STATUS_STALEMATE = 4;
 
+// Abort codes raised by the chess module
+export const E_GAME_NOT_FOUND = 1;
+export const E_NOT_YOUR_TURN = 2;
+export const E_INVALID_MOVE = 3;
+export const E_GAME_OVER = 4;
+export const E_INVALID_SQUARE = 5;
+export const E_INVALID_PROMOTION = 6;
+export const E_NO_PIECE = 7;
+export const E_WRONG_COLOR = 8;
+export const E_WOULD_BE_IN_CHECK = 9;
+export const E_CANNOT_CLAIM_DRAW = 10;
+export const E_NO_LEGAL_MOVES = 11;
+
 export type PieceType = 'pawn' | 'knight' | 'bishop' | 'rook' | 'queen' | 'king';
 export type PieceColor = 'white' | 'black';
 
@@ -35,6 +54,21 @@ export interface ChessMove {
   is_en_passant: boolean;
 }
 
+export interface Position {
+  board: number[];
+  isWhiteTurn: boolean;
+  whiteKingPos: number;
+  blackKingPos: number;
+  enPassantSquare: number;
+}
+
+export interface FenPosition extends Position {
+  halfMoveClock: number;
+  fullMoveNumber: number;
+}
+
+export type NotationStyle = 'san' | 'long' | 'figurine';
+
 export type GameStatus = 'active' | 'white_win' | 'black_win' | 'draw' | 'stalemate';
 
 export interface PlayerStats {
@@ -43,6 +77,19 @@ export interface PlayerStats {
   draws: number;
   totalPoints: number;
   gamesPlayed: number;
+  // Tracked by the contract but only returned by views that expose them
+  currentStreak?: number;
+  bestStreak?: number;
+  fastestWinMoves?: number;
+}
+
+// The parts of the contract's PlayerStats that finalize_game's scoring reads
+// and writes
+export interface ScoringState {
+  totalPoints: number;
+  currentStreak: number;
+  bestStreak: number;
+  fastestWinMoves: number;
 }
 
 export interface LeaderboardEntry {
@@ -61,3 +108,33 @@ export interface GameState {
   moves: ChessMove[];
   isInCheck: boolean;
 }
+
+export interface GameView {
+  board: number[];
+  isWhiteTurn: boolean;
+  status: GameStatus;
+  moveCount: number;
+  whiteKingPos: number;
+  blackKingPos: number;
+}
+
+// Whether claim_draw would accept a claim right now
+export interface DrawClaimStatus {
+  canClaim: boolean;
+  halfMoveClock: number;
+  halfMovesRemaining: number;
+  isInsufficientMaterial: boolean;
+}
+
+// Occurrences of each position hash over the replayed history
+export interface RepetitionStatus {
+  hashes: string[];
+  counts: Record<string, number>;
+  currentCount: number;
+  maxCount: number;
+}
+
+export interface TransactionResult {
+  hash: string | null;
+  gasUsed: number | null;
+}
@@ -0,0 +1,37 @@
+import type { PieceColor } from './chess';
+
+// A square where get_game's board differs from replaying get_moves
+export interface SquareMismatch {
+  square: number;
+  expected: number;
+  // null when the board is too short to have this square
+  actual: number | null;
+  reason: string;
+}
+
+export interface KingMismatch {
+  color: PieceColor;
+  expected: number;
+  actual: number;
+}
+
+// Result of checking get_game against a replay of get_moves
+export interface BoardDiagnostic {
+  plies: number;
+  boardLength: number;
+  squares: SquareMismatch[];
+  kings: KingMismatch[];
+  // Set when the move list itself couldn't be replayed
+  replayError: string | null;
+}
+
+// Everything needed to reproduce a desync, exported by "Report problem"
+export interface ProblemReport {
+  generatedAt: string;
+  network: string;
+  moduleAddress: string;
+  player: string;
+  diagnostic: BoardDiagnostic;
+  responses: Record<string, unknown>;
+  userAgent: string | null;
+}
@@ -0,0 +1,21 @@
+import type { ChessMove, Position } from './chess';
+
+// Engine score (contract scale, higher is better for black) and principal
+// variation for a position
+export interface Analysis {
+  score: number;
+  depth: number;
+  pv: ChessMove[];
+}
+
+// Messages exchanged with src/workers/engine.worker.ts
+
+export type EngineRequest =
+  | { id: number; type: 'hint'; position: Position }
+  | { id: number; type: 'preview'; position: Position; move: ChessMove; moveCount: number }
+  | { id: number; type: 'analyze'; position: Position; depth: number };
+
+export type EngineResponse =
+  | { id: number; type: 'move'; move: ChessMove | null }
+  | { id: number; type: 'analysis'; analysis: Analysis }
+  | { id: number; type: 'error'; message: string };
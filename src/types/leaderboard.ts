@@ -0,0 +1,18 @@
+import type { LeaderboardEntry } from './chess';
+
+// Ranks as last seen on this device, keyed by lowercased address
+export interface LeaderboardSnapshot {
+  takenAt: number;
+  ranks: Record<string, number>;
+}
+
+// Positive when the player moved up since the snapshot, null when they are new
+export interface RankedLeaderboardEntry extends LeaderboardEntry {
+  rankChange: number | null;
+}
+
+// Points separating a player from the entries directly above and below them
+export interface RankNeighbours {
+  above: { entry: LeaderboardEntry; gap: number } | null;
+  below: { entry: LeaderboardEntry; gap: number } | null;
+}
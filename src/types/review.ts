@@ -0,0 +1,30 @@
+import type { ChessMove } from './chess';
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface ReviewedMove {
+  ply: number;
+  move: ChessMove;
+  isWhite: boolean;
+  classification: MoveClassification;
+  // Evaluation in centipawns from white's side, before and after the move
+  evalBefore: number;
+  evalAfter: number;
+  // Centipawns the mover gave up compared with the engine's choice
+  loss: number;
+  bestMove: ChessMove | null;
+}
+
+export interface SideSummary {
+  accuracy: number;
+  counts: Record<MoveClassification, number>;
+}
+
+export interface GameReview {
+  moves: ReviewedMove[];
+  // White-side evaluation in centipawns for every ply, starting position first
+  evaluations: number[];
+  white: SideSummary;
+  black: SideSummary;
+  criticalMoments: ReviewedMove[];
+}
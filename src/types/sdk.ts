@@ -0,0 +1,23 @@
+// The subset of the Movement mini-app SDK used by the chess client
+
+export interface ViewRequest {
+  function: string;
+  type_arguments: string[];
+  function_arguments: unknown[];
+}
+
+export interface TransactionRequest {
+  function: string;
+  type_arguments: string[];
+  arguments: unknown[];
+  title?: string;
+  description?: string;
+  gasLimit?: number;
+}
+
+export interface ChessSDK {
+  view(request: ViewRequest): Promise<unknown>;
+  sendTransaction(request: TransactionRequest): Promise<unknown>;
+  haptic?(options: { type: string; style?: string }): Promise<unknown>;
+  notify?(options: { title: string; body: string }): Promise<unknown>;
+}
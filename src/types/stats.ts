@@ -0,0 +1,51 @@
+import type { ArchiveResult } from './archive';
+
+export interface ResultCounts {
+  won: number;
+  lost: number;
+  drawn: number;
+}
+
+// Results of the games finished on one day
+export interface ResultsByDay extends ResultCounts {
+  date: string;
+}
+
+// Points after each finished game, replaying finalize_game's scoring
+export interface PointsTimelineEntry {
+  archivedAt: number;
+  result: Exclude<ArchiveResult, 'unfinished'>;
+  delta: number;
+  totalPoints: number;
+  streak: number;
+}
+
+// Games grouped by their first moves in SAN
+export interface OpeningStats extends ResultCounts {
+  moves: string;
+  played: number;
+  winRate: number;
+}
+
+export interface ArchiveStats {
+  totals: ResultCounts & { played: number; winRate: number };
+  // Average length in full moves
+  averageLength: number;
+  averageLengthByResult: ResultCounts;
+  resultsByDay: ResultsByDay[];
+  pointsTimeline: PointsTimelineEntry[];
+  openings: OpeningStats[];
+  firstMoves: OpeningStats[];
+  currentStreak: number;
+  bestStreak: number;
+  fastestWinMoves: number;
+}
+
+// What finalize_game would do if the current game ended now
+export interface ScoreProjection {
+  outcome: 'win' | 'draw' | 'resign';
+  delta: number;
+  totalPoints: number;
+  // Leaderboard rank afterwards, null when off the board
+  rank: number | null;
+}
@@ -0,0 +1,21 @@
+// Entry functions of the chess module
+export type TransactionKind = 'new_game' | 'make_move' | 'resign' | 'claim_draw';
+
+// interrupted: the page was closed or reloaded before the result arrived, so
+// the transaction may or may not have landed
+export type TransactionState = 'submitted' | 'confirmed' | 'failed' | 'interrupted';
+
+export interface TrackedTransaction {
+  id: string;
+  kind: TransactionKind;
+  args: unknown[];
+  // Move in long algebraic form for make_move, otherwise null
+  notation: string | null;
+  network: string;
+  state: TransactionState;
+  hash: string | null;
+  gasUsed: number | null;
+  error: string | null;
+  submittedAt: number;
+  settledAt: number | null;
+}
@@ -0,0 +1,170 @@
+import type { GameState, GameStatus } from '../types/chess';
+import type { ArchiveReason, ArchiveResult, ArchivedGame } from '../types/archive';
+
+// Local copies of games, since the chain keeps only the current one per
+// address and new_game deletes it. Stored in IndexedDB, one record per
+// game, indexed by wallet address.
+
+const DB_NAME = 'chess-archive';
+const GAMES_STORE = 'games';
+const ADDRESS_INDEX = 'address';
+
+// Where the archive lived before it moved to IndexedDB
+const LEGACY_STORAGE_PREFIX = 'chess:archive:';
+
+// Each entry upgrades the database from the previous version. Only append:
+// existing databases have already run the earlier steps.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: games keyed by id with an address index, seeded from localStorage
+  db => {
+    const store = db.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+    store.createIndex(ADDRESS_INDEX, 'address');
+    importLegacyArchive(store);
+  },
+];
+
+export const ARCHIVE_SCHEMA_VERSION = MIGRATIONS.length;
+
+function normalizeAddress(address: string): string {
+  return address.toLowerCase();
+}
+
+function importLegacyArchive(store: IDBObjectStore) {
+  const keys = Object.keys(window.localStorage).filter(key => key.startsWith(LEGACY_STORAGE_PREFIX));
+
+  for (const key of keys) {
+    try {
+      const games = JSON.parse(window.localStorage.getItem(key) ?? '[]') as ArchivedGame[];
+      for (const game of games) {
+        store.put({ ...game, address: normalizeAddress(game.address) });
+      }
+    } catch (err) {
+      console.warn('[Chess] Skipping unreadable legacy archive:', key, err);
+    }
+  }
+
+  // Only drop the old copies once the upgrade has committed
+  store.transaction.addEventListener('complete', () => {
+    keys.forEach(key => window.localStorage.removeItem(key));
+  });
+}
+
+const RESULTS: Record<GameStatus, ArchiveResult> = {
+  active: 'unfinished',
+  white_win: 'won',
+  black_win: 'lost',
+  draw: 'drawn',
+  stalemate: 'drawn',
+};
+
+export function getArchiveResult(game: ArchivedGame): ArchiveResult {
+  return RESULTS[game.game.status];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, ARCHIVE_SCHEMA_VERSION);
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      const tx = request.transaction as IDBTransaction;
+      for (let version = event.oldVersion; version < ARCHIVE_SCHEMA_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('[Chess] Archive upgrade blocked by another open tab');
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function newestFirst(games: ArchivedGame[]): ArchivedGame[] {
+  return [...games].sort((a, b) => b.archivedAt - a.archivedAt);
+}
+
+function sameGame(a: GameState, b: GameState): boolean {
+  return a.status === b.status && JSON.stringify(a.moves) === JSON.stringify(b.moves);
+}
+
+// Newest first
+export async function getArchivedGames(address: string): Promise<ArchivedGame[]> {
+  const db = await openDatabase();
+  const index = db.transaction(GAMES_STORE).objectStore(GAMES_STORE).index(ADDRESS_INDEX);
+  return newestFirst(await promisify(index.getAll(normalizeAddress(address))));
+}
+
+export async function getArchivedGame(id: string): Promise<ArchivedGame | null> {
+  const db = await openDatabase();
+  const game = await promisify(db.transaction(GAMES_STORE).objectStore(GAMES_STORE).get(id));
+  return (game as ArchivedGame | undefined) ?? null;
+}
+
+export async function archiveGame(address: string, game: GameState, reason: ArchiveReason): Promise<ArchivedGame> {
+  const db = await openDatabase();
+
+  // Read and write in one transaction so two tabs can't both add the game
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(GAMES_STORE, 'readwrite');
+    const store = tx.objectStore(GAMES_STORE);
+    const lookup = store.index(ADDRESS_INDEX).getAll(normalizeAddress(address));
+    let result: ArchivedGame;
+
+    lookup.onsuccess = () => {
+      // Archiving the same game twice keeps the first copy
+      const [latest] = newestFirst(lookup.result as ArchivedGame[]);
+      if (latest && sameGame(latest.game, game)) {
+        result = latest;
+        return;
+      }
+
+      result = {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        address: normalizeAddress(address),
+        reason,
+        archivedAt: Date.now(),
+        game,
+      };
+      store.put(result);
+    };
+
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Archive transaction aborted'));
+  });
+}
+
+export async function deleteArchivedGame(id: string): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(GAMES_STORE, 'readwrite').objectStore(GAMES_STORE).delete(id));
+}
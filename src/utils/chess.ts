@@ -3,10 +3,13 @@ import {
   PieceType,
   PieceColor,
   GameStatus,
+  GameState,
+  FenPosition,
   EMPTY, PAWN, KNIGHT, BISHOP, ROOK, QUEEN, KING,
-  WHITE, BLACK,
+  WHITE, BLACK, HAS_MOVED, NO_SQUARE,
   STATUS_ACTIVE, STATUS_WHITE_WIN, STATUS_BLACK_WIN, STATUS_DRAW, STATUS_STALEMATE
 } from '../types/chess';
+import { replayMoves } from './replay';
 
 const PIECE_TYPE_MAP: Record<number, PieceType> = {
   [PAWN]: 'pawn',
@@ -44,6 +47,201 @@ export function encodePiece(piece: ChessPiece): number {
   return code;
 }
 
+const FEN_PIECE_LETTERS: Record<number, string> = {
+  [PAWN]: 'p',
+  [KNIGHT]: 'n',
+  [BISHOP]: 'b',
+  [ROOK]: 'r',
+  [QUEEN]: 'q',
+  [KING]: 'k',
+};
+
+const FEN_LETTER_PIECES: Record<string, number> = {
+  p: PAWN,
+  n: KNIGHT,
+  b: BISHOP,
+  r: ROOK,
+  q: QUEEN,
+  k: KING,
+};
+
+// Castling rights as [flag, king square, rook square]
+const CASTLING_SQUARES: [string, number, number][] = [
+  ['K', 4, 7],
+  ['Q', 4, 0],
+  ['k', 60, 63],
+  ['q', 60, 56],
+];
+
+function hasCastlingRight(board: number[], color: number, kingSquare: number, rookSquare: number): boolean {
+  // King and rook must both be on their home squares without the HAS_MOVED flag
+  return board[kingSquare] === (color | KING) && board[rookSquare] === (color | ROOK);
+}
+
+export function positionToFEN(position: FenPosition): string {
+  const ranks: string[] = [];
+  for (let rank = 7; rank >= 0; rank--) {
+    let row = '';
+    let empty = 0;
+    for (let file = 0; file < 8; file++) {
+      const code = position.board[rank * 8 + file];
+      const letter = FEN_PIECE_LETTERS[code & 7];
+      if (!letter) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) row += empty;
+      empty = 0;
+      row += (code & 8) === WHITE ? letter.toUpperCase() : letter;
+    }
+    if (empty > 0) row += empty;
+    ranks.push(row);
+  }
+
+  const castling = CASTLING_SQUARES
+    .filter(([flag, king, rook]) =>
+      hasCastlingRight(position.board, flag === flag.toUpperCase() ? WHITE : BLACK, king, rook)
+    )
+    .map(([flag]) => flag)
+    .join('');
+
+  const enPassant = position.enPassantSquare === NO_SQUARE
+    ? '-'
+    : squareToNotation(position.enPassantSquare);
+
+  return [
+    ranks.join('/'),
+    position.isWhiteTurn ? 'w' : 'b',
+    castling || '-',
+    enPassant,
+    position.halfMoveClock,
+    position.fullMoveNumber,
+  ].join(' ');
+}
+
+// Serialize a game. The en passant square and half-move clock are not part
+// of get_game, so they are recovered by replaying the move history.
+export function toFEN(gameState: GameState): string {
+  const { position, halfMoveClock } = replayMoves(gameState.moves);
+
+  return positionToFEN({
+    board: gameState.board,
+    isWhiteTurn: gameState.isWhiteTurn,
+    whiteKingPos: gameState.whiteKingPos,
+    blackKingPos: gameState.blackKingPos,
+    enPassantSquare: position.enPassantSquare,
+    halfMoveClock,
+    fullMoveNumber: Math.floor(gameState.moveCount / 2) + 1,
+  });
+}
+
+// Parse a FEN string into a contract-encoded position
+export function fromFEN(fen: string): FenPosition {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 4 || fields.length > 6) {
+    throw new Error(`Invalid FEN: expected 4-6 fields, got ${fields.length}`);
+  }
+
+  const [placement, turn, castling, enPassant, halfMove = '0', fullMove = '1'] = fields;
+
+  const rows = placement.split('/');
+  if (rows.length !== 8) {
+    throw new Error(`Invalid FEN: expected 8 ranks, got ${rows.length}`);
+  }
+
+  const board: number[] = new Array(64).fill(EMPTY);
+  let whiteKingPos = NO_SQUARE;
+  let blackKingPos = NO_SQUARE;
+
+  rows.forEach((row, idx) => {
+    const rank = 7 - idx;
+    let file = 0;
+    for (const char of row) {
+      if (char >= '1' && char <= '8') {
+        file += Number(char);
+        continue;
+      }
+      const pieceType = FEN_LETTER_PIECES[char.toLowerCase()];
+      if (!pieceType || file > 7) {
+        throw new Error(`Invalid FEN: bad rank "${row}"`);
+      }
+      const color = char === char.toUpperCase() ? WHITE : BLACK;
+      const square = rank * 8 + file;
+      board[square] = color | pieceType;
+      if (pieceType === KING) {
+        if (color === WHITE) {
+          if (whiteKingPos !== NO_SQUARE) throw new Error('Invalid FEN: more than one white king');
+          whiteKingPos = square;
+        } else {
+          if (blackKingPos !== NO_SQUARE) throw new Error('Invalid FEN: more than one black king');
+          blackKingPos = square;
+        }
+      }
+      file++;
+    }
+    if (file !== 8) {
+      throw new Error(`Invalid FEN: rank "${row}" does not cover 8 files`);
+    }
+  });
+
+  if (whiteKingPos === NO_SQUARE || blackKingPos === NO_SQUARE) {
+    throw new Error('Invalid FEN: both kings are required');
+  }
+
+  if (turn !== 'w' && turn !== 'b') {
+    throw new Error(`Invalid FEN: bad active color "${turn}"`);
+  }
+
+  if (!/^(-|K?Q?k?q?)$/.test(castling) || castling === '') {
+    throw new Error(`Invalid FEN: bad castling field "${castling}"`);
+  }
+
+  // Only kings and rooks backing a castling right keep HAS_MOVED clear
+  const unmoved = new Set<number>();
+  for (const [flag, king, rook] of CASTLING_SQUARES) {
+    if (!castling.includes(flag)) continue;
+    const color = flag === flag.toUpperCase() ? WHITE : BLACK;
+    if (!hasCastlingRight(board, color, king, rook)) {
+      throw new Error(`Invalid FEN: castling right "${flag}" without king and rook on their home squares`);
+    }
+    unmoved.add(king);
+    unmoved.add(rook);
+  }
+  board.forEach((code, square) => {
+    const pieceType = code & 7;
+    if ((pieceType === KING || pieceType === ROOK) && !unmoved.has(square)) {
+      board[square] = code | HAS_MOVED;
+    }
+  });
+
+  let enPassantSquare = NO_SQUARE;
+  if (enPassant !== '-') {
+    if (!/^[a-h][36]$/.test(enPassant)) {
+      throw new Error(`Invalid FEN: bad en passant square "${enPassant}"`);
+    }
+    enPassantSquare = notationToSquare(enPassant);
+  }
+
+  const halfMoveClock = Number(halfMove);
+  const fullMoveNumber = Number(fullMove);
+  if (!Number.isInteger(halfMoveClock) || halfMoveClock < 0) {
+    throw new Error(`Invalid FEN: bad half-move clock "${halfMove}"`);
+  }
+  if (!Number.isInteger(fullMoveNumber) || fullMoveNumber < 1) {
+    throw new Error(`Invalid FEN: bad full-move number "${fullMove}"`);
+  }
+
+  return {
+    board,
+    isWhiteTurn: turn === 'w',
+    whiteKingPos,
+    blackKingPos,
+    enPassantSquare,
+    halfMoveClock,
+    fullMoveNumber,
+  };
+}
+
 export function squareToNotation(square: number): string {
   const file = String.fromCharCode(97 + (square % 8)); // a-h
   const rank = Math.floor(square / 8) + 1; // 1-8
@@ -115,3 +313,8 @@ export function formatAddress(address: string, chars: number = 6): string {
   if (address.length <= chars * 2) return address;
   return `${address.slice(0, chars)}...${address.slice(-chars)}`;
 }
+
+// Loose check for an account address in a route parameter
+export function isAccountAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{1,64}$/.test(value);
+}
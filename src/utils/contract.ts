@@ -0,0 +1,464 @@
+import { CHESS_MODULE_ADDRESS } from '../../constants';
+import { parseGameStatus, squareToNotation } from './chess';
+import { STATUS_STALEMATE, KNIGHT, BISHOP, ROOK, QUEEN } from '../types/chess';
+import type {
+  ChessMove,
+  GameState,
+  GameView,
+  LeaderboardEntry,
+  PlayerStats,
+  TransactionResult,
+} from '../types/chess';
+import type { ChessSDK } from '../types/sdk';
+import type { TransactionKind } from '../types/transactions';
+import type { BoardDiagnostic } from '../types/diagnostics';
+import { getViewCache } from './viewCache';
+import { isBoardConsistent, summarizeDiagnostic, verifyBoard } from './verify';
+import type { ViewCache } from './viewCache';
+
+// make_move runs the AI search in the same transaction, so it needs far more
+// gas than the SDK default
+export const MAKE_MOVE_GAS_LIMIT = 2000000;
+
+export type ChessViewFunction =
+  | 'get_game'
+  | 'get_moves'
+  | 'get_player_stats'
+  | 'get_leaderboard'
+  | 'is_in_check'
+  | 'has_game';
+
+export type ChessEntryFunction = TransactionKind;
+
+// Views whose results each entry function can change, dropped from the
+// cache once it succeeds
+const INVALIDATED_VIEWS: Record<ChessEntryFunction, ChessViewFunction[]> = {
+  new_game: ['has_game', 'get_game', 'get_moves', 'is_in_check'],
+  make_move: ['get_game', 'get_moves', 'is_in_check', 'get_player_stats', 'get_leaderboard'],
+  resign: ['get_game', 'get_player_stats', 'get_leaderboard'],
+  claim_draw: ['get_game', 'get_player_stats', 'get_leaderboard'],
+};
+
+// Scores change only when a game is finalized, so they can be cached longer
+const VIEW_MAX_AGE_MS: Partial<Record<ChessViewFunction, number>> = {
+  get_player_stats: 30000,
+  get_leaderboard: 30000,
+};
+
+export interface ViewOptions {
+  // Bypass cached results, e.g. while waiting for a transaction to show up
+  fresh?: boolean;
+}
+
+// Told about every transaction the client submits and how it ended
+export interface TransactionObserver {
+  onSubmitted(kind: ChessEntryFunction, args: unknown[], notation: string | null): string;
+  onConfirmed(id: string, result: TransactionResult): void;
+  onFailed(id: string, error: unknown): void;
+}
+
+// Thrown when a view function returns something that doesn't match its
+// Move signature
+export class ContractResponseError extends Error {
+  constructor(
+    public readonly functionName: ChessViewFunction,
+    message: string,
+    public readonly response: unknown
+  ) {
+    super(`Unexpected ${functionName} response: ${message}`);
+    this.name = 'ContractResponseError';
+  }
+}
+
+// Thrown when get_game's board doesn't match a replay of get_moves. Carries
+// the raw view responses so the problem can be reported as is.
+export class BoardMismatchError extends Error {
+  constructor(
+    public readonly player: string,
+    public readonly diagnostic: BoardDiagnostic,
+    public readonly responses: Partial<Record<ChessViewFunction, unknown>>
+  ) {
+    super(`The board doesn't match the move list: ${summarizeDiagnostic(diagnostic)}`);
+    this.name = 'BoardMismatchError';
+  }
+}
+
+// ============ DECODERS ============
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === 'string') return `"${value.length > 20 ? `${value.slice(0, 20)}...` : value}"`;
+  return typeof value;
+}
+
+// View results are tuples of return values. Some SDK versions hand them back
+// as objects with numeric keys instead of arrays.
+function decodeTuple(fn: ChessViewFunction, response: unknown, length: number): unknown[] {
+  let values: unknown[] | null = null;
+
+  if (Array.isArray(response)) {
+    values = response;
+  } else if (response && typeof response === 'object') {
+    const record = response as Record<string, unknown>;
+    if (Array.from({ length }, (_, i) => String(i)).every(key => key in record)) {
+      values = Array.from({ length }, (_, i) => record[String(i)]);
+    }
+  }
+
+  if (!values || values.length < length) {
+    throw new ContractResponseError(fn, `expected ${length} return value(s), got ${describe(response)}`, response);
+  }
+
+  return values;
+}
+
+function decodeU64(fn: ChessViewFunction, value: unknown, field: string): number {
+  const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isSafeInteger(num) || num < 0) {
+    throw new ContractResponseError(fn, `${field} is not an unsigned integer (${describe(value)})`, value);
+  }
+  return num;
+}
+
+function decodeU8(fn: ChessViewFunction, value: unknown, field: string): number {
+  const num = decodeU64(fn, value, field);
+  if (num > 255) {
+    throw new ContractResponseError(fn, `${field} is out of u8 range (${num})`, value);
+  }
+  return num;
+}
+
+function decodeStatus(fn: ChessViewFunction, value: unknown): GameView['status'] {
+  const status = decodeU8(fn, value, 'status');
+  if (status > STATUS_STALEMATE) {
+    throw new ContractResponseError(fn, `status ${status} is not a known game status`, value);
+  }
+  return parseGameStatus(status);
+}
+
+function decodeBool(fn: ChessViewFunction, value: unknown, field: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new ContractResponseError(fn, `${field} is not a boolean (${describe(value)})`, value);
+  }
+  return value;
+}
+
+function decodeAddress(fn: ChessViewFunction, value: unknown, field: string): string {
+  if (typeof value !== 'string' || !/^0x[0-9a-fA-F]+$/.test(value)) {
+    throw new ContractResponseError(fn, `${field} is not an address (${describe(value)})`, value);
+  }
+  return value;
+}
+
+function decodeVector(fn: ChessViewFunction, value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new ContractResponseError(fn, `${field} is not a vector (${describe(value)})`, value);
+  }
+  return value;
+}
+
+// vector<u8> comes back either as a 0x-prefixed hex string or as an array
+function decodeBytes(fn: ChessViewFunction, value: unknown, field: string): number[] {
+  if (typeof value === 'string') {
+    if (!/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+      throw new ContractResponseError(fn, `${field} is not a hex byte string (${describe(value)})`, value);
+    }
+    const bytes: number[] = [];
+    for (let i = 2; i < value.length; i += 2) {
+      bytes.push(parseInt(value.slice(i, i + 2), 16));
+    }
+    return bytes;
+  }
+
+  return decodeVector(fn, value, field).map((b, idx) => decodeU8(fn, b, `${field}[${idx}]`));
+}
+
+function decodeMove(fn: ChessViewFunction, value: unknown, idx: number): ChessMove {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ContractResponseError(fn, `moves[${idx}] is not a Move struct (${describe(value)})`, value);
+  }
+
+  const m = value as Record<string, unknown>;
+  return {
+    from_square: decodeU8(fn, m.from_square, `moves[${idx}].from_square`),
+    to_square: decodeU8(fn, m.to_square, `moves[${idx}].to_square`),
+    promotion: decodeU8(fn, m.promotion, `moves[${idx}].promotion`),
+    captured_piece: decodeU8(fn, m.captured_piece, `moves[${idx}].captured_piece`),
+    is_castling: decodeBool(fn, m.is_castling, `moves[${idx}].is_castling`),
+    is_en_passant: decodeBool(fn, m.is_en_passant, `moves[${idx}].is_en_passant`),
+  };
+}
+
+export function decodeGame(response: unknown): GameView {
+  const fn = 'get_game';
+  const [board, isWhiteTurn, status, moveCount, whiteKingPos, blackKingPos] = decodeTuple(fn, response, 6);
+
+  return {
+    board: decodeBytes(fn, board, 'board'),
+    isWhiteTurn: decodeBool(fn, isWhiteTurn, 'is_white_turn'),
+    status: decodeStatus(fn, status),
+    moveCount: decodeU64(fn, moveCount, 'move_count'),
+    whiteKingPos: decodeU8(fn, whiteKingPos, 'white_king_pos'),
+    blackKingPos: decodeU8(fn, blackKingPos, 'black_king_pos'),
+  };
+}
+
+export function decodeMoves(response: unknown): ChessMove[] {
+  const fn = 'get_moves';
+  const [moves] = decodeTuple(fn, response, 1);
+  return decodeVector(fn, moves, 'moves').map((m, idx) => decodeMove(fn, m, idx));
+}
+
+export function decodePlayerStats(response: unknown): PlayerStats {
+  const fn = 'get_player_stats';
+  const values = decodeTuple(fn, response, 5);
+  const [wins, losses, draws, totalPoints, gamesPlayed, currentStreak, bestStreak, fastestWinMoves] = values;
+
+  const stats: PlayerStats = {
+    wins: decodeU64(fn, wins, 'wins'),
+    losses: decodeU64(fn, losses, 'losses'),
+    draws: decodeU64(fn, draws, 'draws'),
+    totalPoints: decodeU64(fn, totalPoints, 'total_points'),
+    gamesPlayed: decodeU64(fn, gamesPlayed, 'games_played'),
+  };
+
+  // Module versions that also return the streak and fastest win fields
+  if (values.length >= 8) {
+    stats.currentStreak = decodeU64(fn, currentStreak, 'current_streak');
+    stats.bestStreak = decodeU64(fn, bestStreak, 'best_streak');
+    stats.fastestWinMoves = decodeU64(fn, fastestWinMoves, 'fastest_win_moves');
+  }
+
+  return stats;
+}
+
+export function decodeLeaderboard(response: unknown): LeaderboardEntry[] {
+  const fn = 'get_leaderboard';
+  const [addresses, points] = decodeTuple(fn, response, 2);
+  const addressList = decodeVector(fn, addresses, 'top_players');
+  const pointList = decodeVector(fn, points, 'player_points');
+
+  if (addressList.length !== pointList.length) {
+    throw new ContractResponseError(
+      fn,
+      `top_players has ${addressList.length} entries but player_points has ${pointList.length}`,
+      response
+    );
+  }
+
+  return addressList.map((addr, idx) => ({
+    address: decodeAddress(fn, addr, `top_players[${idx}]`),
+    points: decodeU64(fn, pointList[idx], `player_points[${idx}]`),
+    rank: idx + 1,
+  }));
+}
+
+function decodeBoolResult(fn: ChessViewFunction, response: unknown): boolean {
+  const [value] = decodeTuple(fn, response, 1);
+  return decodeBool(fn, value, 'result');
+}
+
+// Wallets report gas as gas_used (REST API) or gasUsed, as a number or string
+function decodeTransactionResult(result: unknown): TransactionResult {
+  const record = result && typeof result === 'object' ? (result as Record<string, unknown>) : {};
+  const rawGas = record.gas_used ?? record.gasUsed;
+  const gas = typeof rawGas === 'number' || (typeof rawGas === 'string' && rawGas !== '') ? Number(rawGas) : NaN;
+
+  return {
+    hash: typeof record.hash === 'string' ? record.hash : null,
+    gasUsed: Number.isSafeInteger(gas) && gas >= 0 ? gas : null,
+  };
+}
+
+// ============ CLIENT ============
+
+const PROMOTION_LETTERS: Record<number, string> = {
+  [KNIGHT]: 'N',
+  [BISHOP]: 'B',
+  [ROOK]: 'R',
+  [QUEEN]: 'Q',
+};
+
+export class ChessContractClient {
+  private readonly cache: ViewCache;
+
+  constructor(
+    private readonly sdk: ChessSDK,
+    private readonly moduleAddress: string = CHESS_MODULE_ADDRESS,
+    private readonly observer?: TransactionObserver
+  ) {
+    this.cache = getViewCache(sdk);
+  }
+
+  private functionId(name: ChessViewFunction | ChessEntryFunction): string {
+    return `${this.moduleAddress}::chess::${name}`;
+  }
+
+  private viewPrefix(name: ChessViewFunction): string {
+    return `${this.functionId(name)}(`;
+  }
+
+  private viewKey(name: ChessViewFunction, args: unknown[]): string {
+    return `${this.viewPrefix(name)}${JSON.stringify(args)})`;
+  }
+
+  private matchesViews(key: string, names: ChessViewFunction[]): boolean {
+    return names.some(name => key.startsWith(this.viewPrefix(name)));
+  }
+
+  // Identical calls share one request and recent results come from the cache
+  private view(name: ChessViewFunction, args: unknown[] = [], { fresh = false }: ViewOptions = {}): Promise<unknown> {
+    return this.cache.fetch(
+      this.viewKey(name, args),
+      () =>
+        this.sdk.view({
+          function: this.functionId(name),
+          type_arguments: [],
+          function_arguments: args,
+        }),
+      { maxAgeMs: VIEW_MAX_AGE_MS[name], fresh }
+    );
+  }
+
+  private invalidateAfter(name: ChessEntryFunction): void {
+    this.cache.invalidate(key => this.matchesViews(key, INVALIDATED_VIEWS[name]));
+  }
+
+  // Called whenever a cached result of one of these views changes, so every
+  // component showing it can re-read the shared value
+  onViewChange(names: ChessViewFunction[], listener: () => void): () => void {
+    return this.cache.subscribe(key => {
+      if (this.matchesViews(key, names)) listener();
+    });
+  }
+
+  private async send(
+    name: ChessEntryFunction,
+    args: unknown[],
+    title: string,
+    description: string,
+    { gasLimit, notation = null }: { gasLimit?: number; notation?: string | null } = {}
+  ): Promise<TransactionResult> {
+    const id = this.observer?.onSubmitted(name, args, notation);
+
+    try {
+      const result = decodeTransactionResult(await this.sdk.sendTransaction({
+        function: this.functionId(name),
+        type_arguments: [],
+        arguments: args,
+        title,
+        description,
+        ...(gasLimit !== undefined && { gasLimit }),
+      }));
+      this.invalidateAfter(name);
+      if (id !== undefined) this.observer?.onConfirmed(id, result);
+      return result;
+    } catch (err) {
+      if (id !== undefined) this.observer?.onFailed(id, err);
+      throw err;
+    }
+  }
+
+  // ---- Entry functions ----
+
+  newGame(): Promise<TransactionResult> {
+    return this.send('new_game', [], 'New Chess Game', 'Start a new game against the AI');
+  }
+
+  makeMove(from: number, to: number, promotion: number): Promise<TransactionResult> {
+    const promotionSuffix = promotion ? `=${PROMOTION_LETTERS[promotion] ?? '?'}` : '';
+
+    return this.send(
+      'make_move',
+      [from.toString(), to.toString(), promotion.toString()],
+      'Chess Move',
+      `Move ${squareToNotation(from)} to ${squareToNotation(to)}`,
+      {
+        gasLimit: MAKE_MOVE_GAS_LIMIT,
+        notation: `${squareToNotation(from)}-${squareToNotation(to)}${promotionSuffix}`,
+      }
+    );
+  }
+
+  resign(): Promise<TransactionResult> {
+    return this.send('resign', [], 'Resign', 'Resign the current game');
+  }
+
+  claimDraw(): Promise<TransactionResult> {
+    return this.send(
+      'claim_draw',
+      [],
+      'Claim Draw',
+      'Claim a draw by 50-move rule or insufficient material'
+    );
+  }
+
+  // ---- View functions ----
+
+  async getGame(player: string, options?: ViewOptions): Promise<GameView> {
+    return decodeGame(await this.view('get_game', [player], options));
+  }
+
+  async getMoves(player: string, options?: ViewOptions): Promise<ChessMove[]> {
+    return decodeMoves(await this.view('get_moves', [player], options));
+  }
+
+  async getPlayerStats(player: string, options?: ViewOptions): Promise<PlayerStats> {
+    return decodePlayerStats(await this.view('get_player_stats', [player], options));
+  }
+
+  async getLeaderboard(options?: ViewOptions): Promise<LeaderboardEntry[]> {
+    return decodeLeaderboard(await this.view('get_leaderboard', [], options));
+  }
+
+  async isInCheck(player: string, options?: ViewOptions): Promise<boolean> {
+    return decodeBoolResult('is_in_check', await this.view('is_in_check', [player], options));
+  }
+
+  async hasGame(player: string, options?: ViewOptions): Promise<boolean> {
+    return decodeBoolResult('has_game', await this.view('has_game', [player], options));
+  }
+
+  // Everything the UI shows about a player's game, or null when they have
+  // none. All four views go out at once. Without a game the game views
+  // return empty defaults rather than aborting, so has_game decides, and their
+  // results (or errors) only count when it says there is one. The board is
+  // checked against a replay of the moves before it is used.
+  async getGameState(player: string, options?: ViewOptions): Promise<GameState | null> {
+    const [rawExists, rawGame, rawMoves, rawCheck] = await Promise.allSettled([
+      this.view('has_game', [player], options),
+      this.view('get_game', [player], options),
+      this.view('get_moves', [player], options),
+      this.view('is_in_check', [player], options),
+    ]);
+
+    if (rawExists.status === 'rejected') throw rawExists.reason;
+    if (!decodeBoolResult('has_game', rawExists.value)) return null;
+    if (rawGame.status === 'rejected') throw rawGame.reason;
+    if (rawMoves.status === 'rejected') throw rawMoves.reason;
+
+    const game = decodeGame(rawGame.value);
+    const moves = decodeMoves(rawMoves.value);
+
+    const diagnostic = verifyBoard(game, moves);
+    if (!isBoardConsistent(diagnostic)) {
+      throw new BoardMismatchError(player, diagnostic, {
+        has_game: rawExists.value,
+        get_game: rawGame.value,
+        get_moves: rawMoves.value,
+        is_in_check: rawCheck.status === 'fulfilled' ? rawCheck.value : String(rawCheck.reason),
+      });
+    }
+
+    let isInCheck = false;
+    try {
+      if (rawCheck.status === 'rejected') throw rawCheck.reason;
+      isInCheck = decodeBoolResult('is_in_check', rawCheck.value);
+    } catch (e) {
+      console.warn('[Chess] Failed to check is_in_check:', e);
+    }
+
+    return { ...game, moves, isInCheck };
+  }
+}
@@ -0,0 +1,679 @@
+import {
+  EMPTY, PAWN, KNIGHT, BISHOP, ROOK, QUEEN, KING,
+  WHITE, BLACK, HAS_MOVED,
+} from '../types/chess';
+import type { ChessMove, Position } from '../types/chess';
+import type { Analysis } from '../types/engine';
+import { isSquareAttacked, isValidMove } from './rules';
+import { applyMove, createMove } from './replay';
+
+// TypeScript port of the AI in move/sources/chess.move (generate_ai_move and
+// everything it calls). Scores are kept in the contract's unsigned form:
+// SCORE_OFFSET is even, higher is better for black. Any deviation from the
+// contract changes which reply the AI picks, so keep this in lockstep.
+
+export const SCORE_OFFSET = 100000;
+export const MIN_SCORE = 0;
+export const MAX_SCORE = 200000;
+export const SEARCH_DEPTH = 3;
+export const QUIESCENCE_DEPTH = 2;
+
+export const PAWN_VALUE = 100;
+export const KNIGHT_VALUE = 320;
+export const BISHOP_VALUE = 330;
+export const ROOK_VALUE = 500;
+export const QUEEN_VALUE = 900;
+export const KING_VALUE = 20000;
+
+// Raised in strict mode where the contract's u64 arithmetic would overflow
+// or underflow, which aborts the transaction with ARITHMETIC_ERROR
+export class EngineArithmeticError extends Error {
+  constructor(public readonly functionName: string) {
+    super(`the contract would abort with ARITHMETIC_ERROR in ${functionName}`);
+    this.name = 'EngineArithmeticError';
+  }
+}
+
+export interface AiMoveOptions {
+  // Throw EngineArithmeticError where generate_ai_move would abort on chain
+  // instead of carrying on with a clamped score
+  strictArithmetic?: boolean;
+}
+
+// Set for the duration of a strict generateAiMove call; the search is
+// synchronous, so nothing else can observe it
+let strictArithmetic = false;
+
+function subU64(a: number, b: number, functionName: string): number {
+  if (b > a) throw new EngineArithmeticError(functionName);
+  return a - b;
+}
+
+function absDiff(a: number, b: number): number {
+  return a > b ? a - b : b - a;
+}
+
+function makeMove(from: number, to: number, promotion: number, captured: number, isCastling = false): ChessMove {
+  return {
+    from_square: from,
+    to_square: to,
+    promotion,
+    captured_piece: captured,
+    is_castling: isCastling,
+    is_en_passant: false,
+  };
+}
+
+export function getPieceValue(pieceType: number): number {
+  switch (pieceType) {
+    case PAWN: return PAWN_VALUE;
+    case KNIGHT: return KNIGHT_VALUE;
+    case BISHOP: return BISHOP_VALUE;
+    case ROOK: return ROOK_VALUE;
+    case QUEEN: return QUEEN_VALUE;
+    case KING: return KING_VALUE;
+    default: return 0;
+  }
+}
+
+// ============ MOVE GENERATION ============
+
+interface MoveBuckets {
+  captures: ChessMove[];
+  captureScores: number[];
+  nonCaptures: ChessMove[];
+}
+
+function addCapture(buckets: MoveBuckets, move: ChessMove, score: number) {
+  buckets.captures.push(move);
+  buckets.captureScores.push(score);
+}
+
+function addPawnMove(from: number, to: number, promoRow: number, buckets: MoveBuckets, captured: number) {
+  if (Math.floor(to / 8) === promoRow) {
+    // Promotion - only queen for simplicity in AI (main line)
+    const move = makeMove(from, to, QUEEN, captured);
+    if (captured !== EMPTY) {
+      addCapture(buckets, move, getPieceValue(captured) * 10 + 900);
+    } else {
+      buckets.nonCaptures.push(move);
+    }
+  } else {
+    const move = makeMove(from, to, 0, captured);
+    if (captured !== EMPTY) {
+      addCapture(buckets, move, getPieceValue(captured) * 10 + (1000 - PAWN_VALUE));
+    } else {
+      buckets.nonCaptures.push(move);
+    }
+  }
+}
+
+function generatePawnMoves(board: number[], from: number, isWhite: boolean, color: number, buckets: MoveBuckets) {
+  const fromRow = Math.floor(from / 8);
+  const fromCol = from % 8;
+  const promoRow = isWhite ? 7 : 0;
+  const startRow = isWhite ? 1 : 6;
+
+  // Forward move
+  const to = isWhite ? from + 8 : (from >= 8 ? from - 8 : 64);
+  if (to < 64 && (board[to] & 7) === EMPTY) {
+    addPawnMove(from, to, promoRow, buckets, EMPTY);
+
+    // Double push from start
+    if (fromRow === startRow) {
+      const to2 = isWhite ? from + 16 : (from >= 16 ? from - 16 : 64);
+      if (to2 < 64 && (board[to2] & 7) === EMPTY) {
+        buckets.nonCaptures.push(makeMove(from, to2, 0, EMPTY));
+      }
+    }
+  }
+
+  // Captures (diagonal)
+  const capTargets: number[] = [];
+  if (isWhite) {
+    if (fromCol > 0 && from + 7 < 64) capTargets.push(from + 7);
+    if (fromCol < 7 && from + 9 < 64) capTargets.push(from + 9);
+  } else {
+    if (fromCol > 0 && from >= 9) capTargets.push(from - 9);
+    if (fromCol < 7 && from >= 7) capTargets.push(from - 7);
+  }
+
+  for (const target of capTargets) {
+    const targetType = board[target] & 7;
+    if (targetType !== EMPTY && (board[target] & 8) !== color) {
+      addPawnMove(from, target, promoRow, buckets, targetType);
+    }
+  }
+}
+
+// Knight offsets in the order the contract tries them
+const KNIGHT_OFFSETS: [number, number][] = [
+  [2, 1], [2, -1], [-2, 1], [-2, -1],
+  [1, 2], [1, -2], [-1, 2], [-1, -2],
+];
+
+function generateKnightMoves(board: number[], from: number, color: number, buckets: MoveBuckets) {
+  const fromRow = Math.floor(from / 8);
+  const fromCol = from % 8;
+
+  for (const [dr, dc] of KNIGHT_OFFSETS) {
+    const toRow = fromRow + dr;
+    const toCol = fromCol + dc;
+    if (toRow < 0 || toRow >= 8 || toCol < 0 || toCol >= 8) continue;
+
+    const to = toRow * 8 + toCol;
+    const targetType = board[to] & 7;
+    if (targetType === EMPTY) {
+      buckets.nonCaptures.push(makeMove(from, to, 0, EMPTY));
+    } else if ((board[to] & 8) !== color) {
+      addCapture(buckets, makeMove(from, to, 0, targetType), getPieceValue(targetType) * 10 + (1000 - KNIGHT_VALUE));
+    }
+  }
+}
+
+const DIAGONAL_DIRECTIONS: [number, number][] = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+const ORTHOGONAL_DIRECTIONS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+function generateSlidingMoves(
+  board: number[],
+  from: number,
+  color: number,
+  buckets: MoveBuckets,
+  diagonal: boolean,
+  orthogonal: boolean
+) {
+  const pieceValue = diagonal && orthogonal ? QUEEN_VALUE : diagonal ? BISHOP_VALUE : ROOK_VALUE;
+  const directions = [
+    ...(diagonal ? DIAGONAL_DIRECTIONS : []),
+    ...(orthogonal ? ORTHOGONAL_DIRECTIONS : []),
+  ];
+
+  for (const [dr, dc] of directions) {
+    let row = Math.floor(from / 8);
+    let col = from % 8;
+
+    for (;;) {
+      row += dr;
+      col += dc;
+      if (row < 0 || row >= 8 || col < 0 || col >= 8) break;
+
+      const to = row * 8 + col;
+      const targetType = board[to] & 7;
+      if (targetType === EMPTY) {
+        buckets.nonCaptures.push(makeMove(from, to, 0, EMPTY));
+      } else {
+        if ((board[to] & 8) !== color) {
+          addCapture(buckets, makeMove(from, to, 0, targetType), getPieceValue(targetType) * 10 + (1000 - pieceValue));
+        }
+        break; // Blocked
+      }
+    }
+  }
+}
+
+function generateKingMoves(board: number[], from: number, color: number, buckets: MoveBuckets) {
+  const fromRow = Math.floor(from / 8);
+  const fromCol = from % 8;
+
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      if (dr === 0 && dc === 0) continue;
+      const toRow = fromRow + dr;
+      const toCol = fromCol + dc;
+      if (toRow < 0 || toRow >= 8 || toCol < 0 || toCol >= 8) continue;
+
+      const to = toRow * 8 + toCol;
+      const targetType = board[to] & 7;
+      if (targetType === EMPTY) {
+        buckets.nonCaptures.push(makeMove(from, to, 0, EMPTY));
+      } else if ((board[to] & 8) !== color) {
+        // The contract's 1000 - KING_VALUE underflows as u64 and aborts
+        // make_move; outside strict mode the capture is ranked by the victim alone
+        const kingOffset = strictArithmetic
+          ? subU64(1000, KING_VALUE, 'generate_king_moves')
+          : Math.max(0, 1000 - KING_VALUE);
+        const score = getPieceValue(targetType) * 10 + kingOffset;
+        addCapture(buckets, makeMove(from, to, 0, targetType), score);
+      }
+    }
+  }
+}
+
+function generatePieceMoves(board: number[], from: number, pieceType: number, isWhite: boolean, color: number, buckets: MoveBuckets) {
+  switch (pieceType) {
+    case PAWN: generatePawnMoves(board, from, isWhite, color, buckets); break;
+    case KNIGHT: generateKnightMoves(board, from, color, buckets); break;
+    case BISHOP: generateSlidingMoves(board, from, color, buckets, true, false); break;
+    case ROOK: generateSlidingMoves(board, from, color, buckets, false, true); break;
+    case QUEEN: generateSlidingMoves(board, from, color, buckets, true, true); break;
+    case KING: generateKingMoves(board, from, color, buckets); break;
+  }
+}
+
+function collectMoves(board: number[], isWhite: boolean): MoveBuckets {
+  const buckets: MoveBuckets = { captures: [], captureScores: [], nonCaptures: [] };
+  const color = isWhite ? WHITE : BLACK;
+
+  for (let from = 0; from < 64; from++) {
+    const piece = board[from];
+    const pieceType = piece & 7;
+    if (pieceType !== EMPTY && (piece & 8) === color) {
+      generatePieceMoves(board, from, pieceType, isWhite, color, buckets);
+    }
+  }
+
+  return buckets;
+}
+
+// Simplified castling checks for move generation
+function canCastleKingsideSimple(board: number[], kingPos: number, isWhite: boolean): boolean {
+  const row = isWhite ? 0 : 7;
+  if (kingPos !== row * 8 + 4) return false;
+  if ((board[kingPos] & HAS_MOVED) !== 0) return false;
+
+  const rook = board[row * 8 + 7];
+  if ((rook & 7) !== ROOK || (rook & HAS_MOVED) !== 0) return false;
+
+  return board[row * 8 + 5] === EMPTY && board[row * 8 + 6] === EMPTY;
+}
+
+function canCastleQueensideSimple(board: number[], kingPos: number, isWhite: boolean): boolean {
+  const row = isWhite ? 0 : 7;
+  if (kingPos !== row * 8 + 4) return false;
+  if ((board[kingPos] & HAS_MOVED) !== 0) return false;
+
+  const rook = board[row * 8];
+  if ((rook & 7) !== ROOK || (rook & HAS_MOVED) !== 0) return false;
+
+  return board[row * 8 + 1] === EMPTY && board[row * 8 + 2] === EMPTY && board[row * 8 + 3] === EMPTY;
+}
+
+// Pseudo-legal moves ordered like the contract: queen/rook captures, other
+// captures, castling, then quiet moves
+export function generateSortedMoves(board: number[], blackKing: number, whiteKing: number, isWhite: boolean): ChessMove[] {
+  const { captures, captureScores, nonCaptures } = collectMoves(board, isWhite);
+  const result: ChessMove[] = [];
+
+  captures.forEach((move, i) => {
+    if (captureScores[i] >= 5000) result.push(move);
+  });
+  captures.forEach((move, i) => {
+    if (captureScores[i] < 5000) result.push(move);
+  });
+
+  const kingPos = isWhite ? whiteKing : blackKing;
+  if (canCastleKingsideSimple(board, kingPos, isWhite)) {
+    result.push(makeMove(kingPos, kingPos + 2, 0, EMPTY, true));
+  }
+  if (canCastleQueensideSimple(board, kingPos, isWhite)) {
+    result.push(makeMove(kingPos, kingPos - 2, 0, EMPTY, true));
+  }
+
+  return result.concat(nonCaptures);
+}
+
+export function generateCaptures(board: number[], isWhite: boolean): ChessMove[] {
+  return collectMoves(board, isWhite).captures;
+}
+
+// Make a move on a temporary board
+export function makeTempMove(
+  board: number[],
+  from: number,
+  to: number,
+  promo: number,
+  blackKing: number,
+  whiteKing: number
+): [number[], number, number] {
+  const temp = [...board];
+  const piece = temp[from];
+  const pieceType = piece & 7;
+  const pieceColor = piece & 8;
+
+  temp[from] = EMPTY;
+  temp[to] = promo !== 0 ? pieceColor | promo | HAS_MOVED : piece | HAS_MOVED;
+
+  // Handle castling
+  if (pieceType === KING && absDiff(from % 8, to % 8) === 2) {
+    const row = Math.floor(from / 8);
+    if (to > from) {
+      temp[row * 8 + 5] = temp[row * 8 + 7] | HAS_MOVED;
+      temp[row * 8 + 7] = EMPTY;
+    } else {
+      temp[row * 8 + 3] = temp[row * 8] | HAS_MOVED;
+      temp[row * 8] = EMPTY;
+    }
+  }
+
+  // Handle en passant
+  if (pieceType === PAWN && to % 8 !== from % 8 && (board[to] & 7) === EMPTY) {
+    temp[pieceColor === WHITE ? to - 8 : to + 8] = EMPTY;
+  }
+
+  const newBlackKing = pieceType === KING && pieceColor === BLACK ? to : blackKing;
+  const newWhiteKing = pieceType === KING && pieceColor === WHITE ? to : whiteKing;
+
+  return [temp, newBlackKing, newWhiteKing];
+}
+
+// ============ EVALUATION ============
+
+export function getPieceSquareValue(pieceType: number, row: number, col: number, isWhite: boolean): number {
+  const r = isWhite ? row : 7 - row;
+
+  switch (pieceType) {
+    case PAWN: {
+      // Pawns want to advance, center pawns more valuable
+      const advance = r * 10;
+      const center = col >= 2 && col <= 5 ? 10 : 0;
+      const doubleCenter = (col === 3 || col === 4) && r >= 3 ? 15 : 0;
+      return advance + center + doubleCenter;
+    }
+    case KNIGHT: {
+      // Knights love the center, hate corners
+      const centerBonus = col >= 2 && col <= 5 && r >= 2 && r <= 5 ? 30 : 0;
+      const cornerPenalty = (col === 0 || col === 7) && (r === 0 || r === 7) ? 0 : 10;
+      return centerBonus + cornerPenalty;
+    }
+    case BISHOP:
+      return col >= 2 && col <= 5 && r >= 2 && r <= 5 ? 20 : 0;
+    case ROOK:
+      return r === 6 ? 30 : 0;
+    case QUEEN:
+      return r >= 2 && r <= 5 ? 5 : 0;
+    case KING:
+      return (col <= 2 || col >= 6) && r === 0 ? 30 : 0;
+    default:
+      return 0;
+  }
+}
+
+export function evaluateKingSafety(board: number[], kingPos: number, isWhite: boolean): number {
+  let safety = 0;
+  const row = Math.floor(kingPos / 8);
+  const col = kingPos % 8;
+
+  // Bonus for castled position
+  if ((col <= 2 || col >= 6) && ((isWhite && row === 0) || (!isWhite && row === 7))) {
+    safety += 40;
+  }
+
+  // Pawn shield
+  const pawnColor = isWhite ? WHITE : BLACK;
+  const pawnRow = isWhite ? row + 1 : (row > 0 ? row - 1 : 0);
+  if (pawnRow < 8) {
+    const startCol = col > 0 ? col - 1 : 0;
+    const endCol = col < 7 ? col + 1 : 7;
+    for (let c = startCol; c <= endCol; c++) {
+      const piece = board[pawnRow * 8 + c];
+      if ((piece & 7) === PAWN && (piece & 8) === pawnColor) safety += 15;
+    }
+  }
+
+  return safety;
+}
+
+// Static evaluation around SCORE_OFFSET, higher is better for black
+export function evaluatePosition(board: number[], blackKing: number, whiteKing: number): number {
+  let score = SCORE_OFFSET;
+
+  // Material count + piece-square tables
+  for (let i = 0; i < 64; i++) {
+    const piece = board[i];
+    const pieceType = piece & 7;
+    if (pieceType === EMPTY) continue;
+
+    const value = getPieceValue(pieceType);
+    const psqBonus = getPieceSquareValue(pieceType, Math.floor(i / 8), i % 8, (piece & 8) === WHITE);
+
+    if ((piece & 8) === BLACK) {
+      score = score + value + psqBonus;
+    } else if (score > value + psqBonus) {
+      score = score - value - psqBonus;
+    }
+  }
+
+  // King safety
+  const blackSafety = evaluateKingSafety(board, blackKing, false);
+  const whiteSafety = evaluateKingSafety(board, whiteKing, true);
+  score += blackSafety;
+  if (score > whiteSafety) score -= whiteSafety;
+
+  return score;
+}
+
+// ============ SEARCH ============
+
+// Quiescence search - only search captures to reach quiet positions
+export function quiescenceSearch(
+  board: number[],
+  depth: number,
+  alpha: number,
+  beta: number,
+  isWhiteTurn: boolean,
+  blackKing: number,
+  whiteKing: number
+): number {
+  const standPat = evaluatePosition(board, blackKing, whiteKing);
+  if (depth === 0) return standPat;
+
+  let a = alpha;
+  let b = beta;
+
+  if (isWhiteTurn) {
+    // White minimizing
+    if (standPat < b) b = standPat;
+    if (b <= a) return standPat;
+
+    for (const m of generateCaptures(board, true)) {
+      const [temp, newBlackKing, newWhiteKing] = makeTempMove(board, m.from_square, m.to_square, m.promotion, blackKing, whiteKing);
+      if (!isSquareAttacked(temp, newWhiteKing, false)) {
+        const score = quiescenceSearch(temp, depth - 1, a, b, false, newBlackKing, newWhiteKing);
+        if (score < b) b = score;
+        if (b <= a) return b;
+      }
+    }
+    return b;
+  }
+
+  // Black maximizing
+  if (standPat > a) a = standPat;
+  if (b <= a) return standPat;
+
+  for (const m of generateCaptures(board, false)) {
+    const [temp, newBlackKing, newWhiteKing] = makeTempMove(board, m.from_square, m.to_square, m.promotion, blackKing, whiteKing);
+    if (!isSquareAttacked(temp, newBlackKing, true)) {
+      const score = quiescenceSearch(temp, depth - 1, a, b, true, newBlackKing, newWhiteKing);
+      if (score > a) a = score;
+      if (b <= a) return a;
+    }
+  }
+  return a;
+}
+
+// Alpha-beta minimax with late move reductions, scored from black's side
+export function alphaBeta(
+  board: number[],
+  depth: number,
+  alpha: number,
+  beta: number,
+  isWhiteTurn: boolean,
+  blackKing: number,
+  whiteKing: number
+): number {
+  if (depth === 0) {
+    return quiescenceSearch(board, QUIESCENCE_DEPTH, alpha, beta, isWhiteTurn, blackKing, whiteKing);
+  }
+
+  let a = alpha;
+  let b = beta;
+  const moves = generateSortedMoves(board, blackKing, whiteKing, isWhiteTurn);
+
+  if (moves.length === 0) {
+    // No moves - checkmate or stalemate
+    if (isWhiteTurn) {
+      return isSquareAttacked(board, whiteKing, false) ? MAX_SCORE - 1000 : SCORE_OFFSET;
+    }
+    return isSquareAttacked(board, blackKing, true) ? MIN_SCORE + 1000 : SCORE_OFFSET;
+  }
+
+  let best = isWhiteTurn ? MAX_SCORE : MIN_SCORE;
+  let movesSearched = 0;
+
+  for (const m of moves) {
+    const [temp, newBlackKing, newWhiteKing] = makeTempMove(board, m.from_square, m.to_square, m.promotion, blackKing, whiteKing);
+
+    // Skip moves that leave the mover in check
+    const ownKing = isWhiteTurn ? newWhiteKing : newBlackKing;
+    if (isSquareAttacked(temp, ownKing, !isWhiteTurn)) continue;
+
+    // Late Move Reduction: reduce depth for late non-captures
+    const isCapture = m.captured_piece !== EMPTY;
+    const searchDepth = movesSearched >= 3 && !isCapture && depth >= 2 ? depth - 2 : depth - 1;
+
+    let score = alphaBeta(temp, searchDepth, a, b, !isWhiteTurn, newBlackKing, newWhiteKing);
+
+    if (isWhiteTurn) {
+      // Re-search with full depth if the reduced search was interesting
+      if (searchDepth < depth - 1 && score < b) {
+        score = alphaBeta(temp, depth - 1, a, b, false, newBlackKing, newWhiteKing);
+      }
+      if (score < best) best = score;
+      if (score < b) b = score;
+    } else {
+      if (searchDepth < depth - 1 && score > a) {
+        score = alphaBeta(temp, depth - 1, a, b, true, newBlackKing, newWhiteKing);
+      }
+      if (score > best) best = score;
+      if (score > a) a = score;
+    }
+
+    if (b <= a) return best;
+    movesSearched++;
+  }
+
+  return best;
+}
+
+export interface ScoredMove {
+  move: ChessMove;
+  score: number;
+}
+
+// Every legal black reply with the score generate_ai_move assigns it,
+// including the tiebreaker, in the order the contract considers them
+export function scoreAiMoves(position: Position, moveCount: number): ScoredMove[] {
+  const { board, blackKingPos, whiteKingPos } = position;
+  const scored: ScoredMove[] = [];
+
+  for (const m of generateSortedMoves(board, blackKingPos, whiteKingPos, false)) {
+    if (!isValidMove(position, m.from_square, m.to_square, m.promotion, false)) continue;
+
+    const [temp, newBlackKing, newWhiteKing] = makeTempMove(board, m.from_square, m.to_square, m.promotion, blackKingPos, whiteKingPos);
+    const score = alphaBeta(temp, SEARCH_DEPTH - 1, MIN_SCORE, MAX_SCORE, true, newBlackKing, newWhiteKing);
+
+    // Small tiebreaker for variety
+    const tiebreaker = (m.from_square * 7 + m.to_square * 3 + moveCount) % 5;
+    scored.push({ move: m, score: score + tiebreaker });
+  }
+
+  return scored;
+}
+
+// The move the contract's AI plays for black, or null if black has no legal
+// move (the contract aborts with E_NO_LEGAL_MOVES in that case)
+export function generateAiMove(position: Position, moveCount: number, options: AiMoveOptions = {}): ChessMove | null {
+  let best: ScoredMove | null = null;
+
+  const wasStrict = strictArithmetic;
+  strictArithmetic = !!options.strictArithmetic;
+  try {
+    for (const candidate of scoreAiMoves(position, moveCount)) {
+      if (!best || candidate.score > best.score) best = candidate;
+    }
+  } finally {
+    strictArithmetic = wasStrict;
+  }
+
+  if (!best) return null;
+
+  // The contract returns the bare from/to/promotion triple
+  return makeMove(best.move.from_square, best.move.to_square, best.move.promotion, EMPTY);
+}
+
+// The AI's answer to a white move that hasn't been sent yet. moveCount is the
+// game's move count before that move, as returned by get_game.
+export function predictAiReply(position: Position, move: ChessMove, moveCount: number): ChessMove | null {
+  return generateAiMove(applyMove(position, move), moveCount + 1);
+}
+
+// Best move for the given side at `depth` plies (at least 1), searched like
+// the contract's root but without the tiebreaker. White minimises the score.
+function searchRoot(position: Position, isWhite: boolean, depth: number): ScoredMove | null {
+  const { board, blackKingPos, whiteKingPos } = position;
+  let best: ScoredMove | null = null;
+
+  for (const m of generateSortedMoves(board, blackKingPos, whiteKingPos, isWhite)) {
+    if (!isValidMove(position, m.from_square, m.to_square, m.promotion, isWhite)) continue;
+
+    const [temp, newBlackKing, newWhiteKing] = makeTempMove(board, m.from_square, m.to_square, m.promotion, blackKingPos, whiteKingPos);
+    const score = alphaBeta(temp, depth - 1, MIN_SCORE, MAX_SCORE, !isWhite, newBlackKing, newWhiteKing);
+
+    if (!best || (isWhite ? score < best.score : score > best.score)) best = { move: m, score };
+  }
+
+  return best;
+}
+
+// Best move for white using the same search from the other side. No
+// tiebreaker, so the suggestion is stable.
+export function suggestWhiteMove(position: Position): ChessMove | null {
+  const best = searchRoot(position, true, SEARCH_DEPTH);
+  return best ? createMove(position, best.move.from_square, best.move.to_square, best.move.promotion) : null;
+}
+
+// Score and principal variation for the side to move. The line is built by
+// searching each successive position one ply shallower.
+export function analyzePosition(position: Position, depth: number = SEARCH_DEPTH): Analysis {
+  const root = searchRoot(position, position.isWhiteTurn, depth);
+
+  if (!root) {
+    // No legal moves - same terminal scores as alpha_beta
+    const kingPos = position.isWhiteTurn ? position.whiteKingPos : position.blackKingPos;
+    const mated = isSquareAttacked(position.board, kingPos, !position.isWhiteTurn);
+    const score = !mated ? SCORE_OFFSET : position.isWhiteTurn ? MAX_SCORE - 1000 : MIN_SCORE + 1000;
+    return { score, depth, pv: [] };
+  }
+
+  const pv: ChessMove[] = [];
+  let current = position;
+  let best: ScoredMove | null = root;
+  for (let d = depth; best; d--) {
+    // Generated moves don't flag en passant, so rebuild the stored record
+    const move = createMove(current, best.move.from_square, best.move.to_square, best.move.promotion);
+    pv.push(move);
+    current = applyMove(current, move);
+    best = d > 1 ? searchRoot(current, current.isWhiteTurn, d - 1) : null;
+  }
+
+  return { score: root.score, depth, pv };
+}
+
+// Engine score as pawns from white's point of view
+export function scoreToPawns(score: number): number {
+  return (SCORE_OFFSET - score) / 100;
+}
+
+// Checkmate scores sit near MIN_SCORE / MAX_SCORE, far beyond any material
+// balance
+export function isMateScore(score: number): boolean {
+  return Math.abs(score - SCORE_OFFSET) >= SCORE_OFFSET / 2;
+}
+
+// "+1.25", "-0.40", or "+M" / "-M" for a forced mate, from white's side
+export function formatScore(score: number): string {
+  const pawns = scoreToPawns(score);
+  const sign = pawns > 0 ? '+' : pawns < 0 ? '-' : '';
+  if (isMateScore(score)) return `${sign}M`;
+  return `${sign}${Math.abs(pawns).toFixed(2)}`;
+}
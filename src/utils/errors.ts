@@ -0,0 +1,217 @@
+import { MAKE_MOVE_GAS_LIMIT } from './contract';
+import { FIFTY_MOVE_HALF_MOVES, isPseudoLegalMove, wouldBeInCheck } from './rules';
+import {
+  E_GAME_NOT_FOUND,
+  E_NOT_YOUR_TURN,
+  E_INVALID_MOVE,
+  E_GAME_OVER,
+  E_INVALID_SQUARE,
+  E_INVALID_PROMOTION,
+  E_NO_PIECE,
+  E_WRONG_COLOR,
+  E_WOULD_BE_IN_CHECK,
+  E_CANNOT_CLAIM_DRAW,
+  E_NO_LEGAL_MOVES,
+} from '../types/chess';
+import type { Position } from '../types/chess';
+import type { TransactionKind } from '../types/transactions';
+
+export const ABORT_CODE_NAMES: Record<number, string> = {
+  [E_GAME_NOT_FOUND]: 'E_GAME_NOT_FOUND',
+  [E_NOT_YOUR_TURN]: 'E_NOT_YOUR_TURN',
+  [E_INVALID_MOVE]: 'E_INVALID_MOVE',
+  [E_GAME_OVER]: 'E_GAME_OVER',
+  [E_INVALID_SQUARE]: 'E_INVALID_SQUARE',
+  [E_INVALID_PROMOTION]: 'E_INVALID_PROMOTION',
+  [E_NO_PIECE]: 'E_NO_PIECE',
+  [E_WRONG_COLOR]: 'E_WRONG_COLOR',
+  [E_WOULD_BE_IN_CHECK]: 'E_WOULD_BE_IN_CHECK',
+  [E_CANNOT_CLAIM_DRAW]: 'E_CANNOT_CLAIM_DRAW',
+  [E_NO_LEGAL_MOVES]: 'E_NO_LEGAL_MOVES',
+};
+
+const ABORT_MESSAGES: Record<number, string> = {
+  [E_GAME_NOT_FOUND]: "You don't have a game in progress. Start a new game first",
+  [E_NOT_YOUR_TURN]: "It's not your turn yet - wait for the AI to reply",
+  [E_INVALID_MOVE]: "That move isn't legal in this position",
+  [E_GAME_OVER]: 'This game is already over. Start a new game to keep playing',
+  [E_INVALID_SQUARE]: 'That square is off the board',
+  [E_INVALID_PROMOTION]: 'Pawns can only promote to a queen, rook, bishop or knight',
+  [E_NO_PIECE]: "There's no piece on that square",
+  [E_WRONG_COLOR]: 'You can only move the white pieces',
+  [E_WOULD_BE_IN_CHECK]: 'That move would leave your king in check',
+  [E_CANNOT_CLAIM_DRAW]: "Draw can't be claimed yet: it needs 50 moves without a capture or pawn move, or too little material to mate",
+  [E_NO_LEGAL_MOVES]: 'The AI has no legal reply. Refresh to see the final position',
+};
+
+export type ChessErrorKind = 'rejected' | 'out_of_gas' | 'network' | 'abort' | 'unknown';
+
+// What the player was doing when the error happened, for more specific messages
+export interface ChessErrorContext {
+  kind?: TransactionKind;
+  halfMoveClock?: number;
+  // The white move that was sent and the position it was played from
+  move?: { from: number; to: number; promotion: number };
+  position?: Position;
+}
+
+// A failed transaction or view call, classified so the UI can explain it and
+// decide whether trying again could help
+export class ChessTransactionError extends Error {
+  constructor(
+    public readonly kind: ChessErrorKind,
+    message: string,
+    public readonly retryable: boolean,
+    public readonly original: unknown
+  ) {
+    super(message);
+    this.name = 'ChessTransactionError';
+  }
+}
+
+// The wallet declined to sign
+export class UserRejectedError extends ChessTransactionError {
+  constructor(original: unknown) {
+    super('rejected', 'You cancelled the transaction in your wallet', true, original);
+    this.name = 'UserRejectedError';
+  }
+}
+
+// The transaction hit its gas limit. make_move runs the AI search on chain,
+// so deep positions can exceed MAKE_MOVE_GAS_LIMIT. The search is
+// deterministic, so sending the same move again would fail the same way.
+export class OutOfGasError extends ChessTransactionError {
+  constructor(kind: TransactionKind | undefined, original: unknown) {
+    super(
+      'out_of_gas',
+      kind === 'make_move'
+        ? `The AI ran out of gas searching for a reply (limit ${MAKE_MOVE_GAS_LIMIT.toLocaleString('en-US')}). Try a different move`
+        : 'The transaction ran out of gas',
+      false,
+      original
+    );
+    this.name = 'OutOfGasError';
+  }
+}
+
+// The request never got a definite answer from the network
+export class NetworkError extends ChessTransactionError {
+  constructor(original: unknown) {
+    super('network', "Couldn't reach the network. Check your connection and try again", true, original);
+    this.name = 'NetworkError';
+  }
+}
+
+// The chess module aborted with one of its E_* codes
+export class ContractAbortError extends ChessTransactionError {
+  constructor(public readonly code: number, message: string, original: unknown) {
+    super('abort', message, false, original);
+    this.name = 'ContractAbortError';
+  }
+
+  get abortName(): string {
+    return ABORT_CODE_NAMES[this.code] ?? 'UNKNOWN';
+  }
+}
+
+// The VM stopped the transaction on a u64 overflow or underflow, e.g. the
+// contract's AI search in make_move scoring a king capture
+export class ArithmeticAbortError extends ChessTransactionError {
+  constructor(kind: TransactionKind | undefined, original: unknown) {
+    super(
+      'abort',
+      kind === 'make_move'
+        ? 'The AI hit an arithmetic error searching for a reply, so the move was not played. Try a different move'
+        : 'The transaction failed with an arithmetic error',
+      false,
+      original
+    );
+    this.name = 'ArithmeticAbortError';
+  }
+}
+
+const REJECTED_PATTERN = /user (?:rejected|denied|declined|cancell?ed)|rejected by (?:the )?user|request rejected|cancell?ed by (?:the )?user/i;
+const OUT_OF_GAS_PATTERN = /out of gas|OUT_OF_GAS|EXECUTION_LIMIT_REACHED|MAX_GAS_UNITS_EXCEEDED/i;
+const ARITHMETIC_PATTERN = /ARITHMETIC_ERROR/;
+const NETWORK_PATTERN = /network|failed to fetch|fetch failed|timed? ?out|ECONNREFUSED|ECONNRESET|ENOTFOUND|offline|service unavailable|bad gateway/i;
+// "Move abort in 0x1234::chess: E_INVALID_MOVE(0x3)" or "Move abort in 0x1234::chess: 0x3"
+const ABORT_PATTERN = /abort[^\n]*?::chess\b[^\n]*?(?:E_[A-Z_]+\()?(0x[0-9a-f]+|\d+)/i;
+const ABORT_NAME_PATTERN = /\bE_[A-Z_]+\b/g;
+
+// SDKs reject with Errors, plain strings or REST-style error objects
+function errorText(error: unknown): string {
+  if (typeof error === 'string') return error;
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object') {
+    const record = error as Record<string, unknown>;
+    const parts = ['message', 'vm_status', 'error', 'reason']
+      .map(key => record[key])
+      .filter((value): value is string => typeof value === 'string');
+    if (parts.length > 0) return parts.join(' ');
+  }
+  return '';
+}
+
+function errorCode(error: unknown): unknown {
+  return error && typeof error === 'object' ? (error as Record<string, unknown>).code : undefined;
+}
+
+function parseAbortCode(text: string): number | null {
+  // Prefer the constant name when the error map resolved it
+  for (const name of text.match(ABORT_NAME_PATTERN) ?? []) {
+    const code = Object.keys(ABORT_CODE_NAMES).find(key => ABORT_CODE_NAMES[Number(key)] === name);
+    if (code) return Number(code);
+  }
+
+  const match = text.match(ABORT_PATTERN);
+  if (!match) return null;
+  const code = match[1].toLowerCase().startsWith('0x') ? parseInt(match[1], 16) : Number(match[1]);
+  return code in ABORT_CODE_NAMES ? code : null;
+}
+
+function abortMessage(code: number, context: ChessErrorContext): string {
+  if (code === E_CANNOT_CLAIM_DRAW && context.halfMoveClock !== undefined) {
+    const remaining = Math.max(1, FIFTY_MOVE_HALF_MOVES - context.halfMoveClock);
+    return `Draw can't be claimed yet: 50-move rule needs ${remaining} more half-move${remaining === 1 ? '' : 's'}`;
+  }
+  // The contract never raises E_WOULD_BE_IN_CHECK; a move that leaves the
+  // king in check fails is_valid_move and aborts with E_INVALID_MOVE
+  if (code === E_INVALID_MOVE && context.move && context.position) {
+    const { from, to, promotion } = context.move;
+    if (isPseudoLegalMove(context.position, from, to, promotion, true) && wouldBeInCheck(context.position, from, to, true)) {
+      return ABORT_MESSAGES[E_WOULD_BE_IN_CHECK];
+    }
+  }
+  return ABORT_MESSAGES[code];
+}
+
+// Turn whatever the SDK threw into a typed error with a message fit for players
+export function decodeChessError(error: unknown, context: ChessErrorContext = {}): ChessTransactionError {
+  if (error instanceof ChessTransactionError) return error;
+
+  const text = errorText(error);
+  const code = errorCode(error);
+
+  if (code === 4001 || code === 'USER_REJECTED' || REJECTED_PATTERN.test(text)) {
+    return new UserRejectedError(error);
+  }
+
+  const abortCode = parseAbortCode(text);
+  if (abortCode !== null) {
+    return new ContractAbortError(abortCode, abortMessage(abortCode, context), error);
+  }
+
+  if (ARITHMETIC_PATTERN.test(text)) {
+    return new ArithmeticAbortError(context.kind, error);
+  }
+
+  if (OUT_OF_GAS_PATTERN.test(text)) {
+    return new OutOfGasError(context.kind, error);
+  }
+
+  if (NETWORK_PATTERN.test(text) || (error instanceof TypeError && /fetch/i.test(text))) {
+    return new NetworkError(error);
+  }
+
+  return new ChessTransactionError('unknown', text || 'Something went wrong', false, error);
+}
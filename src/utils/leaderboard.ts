@@ -0,0 +1,67 @@
+import type { LeaderboardEntry } from '../types/chess';
+import type { LeaderboardSnapshot, RankedLeaderboardEntry, RankNeighbours } from '../types/leaderboard';
+
+const SNAPSHOT_KEY = 'chess:leaderboard-snapshot';
+
+export const LEADERBOARD_PAGE_SIZE = 10;
+
+export function loadLeaderboardSnapshot(): LeaderboardSnapshot | null {
+  try {
+    const raw = window.localStorage.getItem(SNAPSHOT_KEY);
+    return raw ? (JSON.parse(raw) as LeaderboardSnapshot) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLeaderboardSnapshot(entries: LeaderboardEntry[]): void {
+  const snapshot: LeaderboardSnapshot = {
+    takenAt: Date.now(),
+    ranks: Object.fromEntries(entries.map(entry => [entry.address.toLowerCase(), entry.rank])),
+  };
+  try {
+    window.localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot));
+  } catch (err) {
+    console.warn('[Chess] Could not save leaderboard snapshot:', err);
+  }
+}
+
+// Without a snapshot there is nothing to compare against, so every change is 0
+export function withRankChanges(
+  entries: LeaderboardEntry[],
+  previous: LeaderboardSnapshot | null
+): RankedLeaderboardEntry[] {
+  return entries.map(entry => {
+    if (!previous) return { ...entry, rankChange: 0 };
+    const before = previous.ranks[entry.address.toLowerCase()];
+    return { ...entry, rankChange: before === undefined ? null : before - entry.rank };
+  });
+}
+
+// Matches anywhere in the address, with or without the 0x prefix
+export function filterByAddress<T extends LeaderboardEntry>(entries: T[], query: string): T[] {
+  const needle = query.trim().toLowerCase().replace(/^0x/, '');
+  if (!needle) return entries;
+  return entries.filter(entry => entry.address.toLowerCase().includes(needle));
+}
+
+export function findEntry<T extends LeaderboardEntry>(entries: T[], address: string | null): T | null {
+  if (!address) return null;
+  const target = address.toLowerCase();
+  return entries.find(entry => entry.address.toLowerCase() === target) ?? null;
+}
+
+// Entries are sorted by rank, so the neighbours sit either side in the list
+export function getRankNeighbours(entries: LeaderboardEntry[], address: string): RankNeighbours {
+  const target = address.toLowerCase();
+  const index = entries.findIndex(entry => entry.address.toLowerCase() === target);
+  if (index === -1) return { above: null, below: null };
+
+  const points = entries[index].points;
+  const above = index > 0 ? entries[index - 1] : null;
+  const below = index < entries.length - 1 ? entries[index + 1] : null;
+  return {
+    above: above && { entry: above, gap: above.points - points },
+    below: below && { entry: below, gap: points - below.points },
+  };
+}
@@ -0,0 +1,122 @@
+import { EMPTY, PAWN, KNIGHT, BISHOP, ROOK, QUEEN, KING, WHITE } from '../types/chess';
+import type { ChessMove, NotationStyle, Position } from '../types/chess';
+import { squareToNotation } from './chess';
+import { applyMove, getInitialPosition } from './replay';
+import { hasAnyLegalMove, isKingInCheck, isValidMove } from './rules';
+
+const SAN_PIECE_LETTERS: Record<number, string> = {
+  [KNIGHT]: 'N',
+  [BISHOP]: 'B',
+  [ROOK]: 'R',
+  [QUEEN]: 'Q',
+  [KING]: 'K',
+};
+
+// File and/or rank needed to tell the moving piece apart from other pieces
+// of the same type that could also legally reach the target square
+function getDisambiguation(position: Position, move: ChessMove): string {
+  const { board } = position;
+  const piece = board[move.from_square] & 15;
+  const isWhite = (piece & 8) === WHITE;
+
+  const rivals: number[] = [];
+  for (let square = 0; square < 64; square++) {
+    if (square === move.from_square || (board[square] & 15) !== piece) continue;
+    if (isValidMove(position, square, move.to_square, 0, isWhite)) rivals.push(square);
+  }
+
+  if (rivals.length === 0) return '';
+
+  const from = squareToNotation(move.from_square);
+  if (rivals.every(sq => sq % 8 !== move.from_square % 8)) return from[0];
+  if (rivals.every(sq => Math.floor(sq / 8) !== Math.floor(move.from_square / 8))) return from[1];
+  return from;
+}
+
+// Check or mate suffix for the side to move after the move was played
+function getCheckSuffix(next: Position): string {
+  if (!isKingInCheck(next, next.isWhiteTurn)) return '';
+  return hasAnyLegalMove(next, next.isWhiteTurn) ? '+' : '#';
+}
+
+// Standard algebraic notation for a recorded move played from `position`
+export function moveToSAN(position: Position, move: ChessMove): string {
+  const next = applyMove(position, move);
+  const suffix = getCheckSuffix(next);
+
+  if (move.is_castling) {
+    return (move.to_square > move.from_square ? 'O-O' : 'O-O-O') + suffix;
+  }
+
+  const pieceType = position.board[move.from_square] & 7;
+  const isCapture = move.captured_piece !== EMPTY || move.is_en_passant;
+  const to = squareToNotation(move.to_square);
+
+  if (pieceType === PAWN) {
+    const file = squareToNotation(move.from_square)[0];
+    const promotion = move.promotion !== 0 ? `=${SAN_PIECE_LETTERS[move.promotion]}` : '';
+    return `${isCapture ? `${file}x` : ''}${to}${promotion}${suffix}`;
+  }
+
+  const letter = SAN_PIECE_LETTERS[pieceType] ?? '';
+  return `${letter}${getDisambiguation(position, move)}${isCapture ? 'x' : ''}${to}${suffix}`;
+}
+
+// Long algebraic notation, e.g. Ng1-f3, e4xd5, e7-e8=Q+
+export function moveToLongAlgebraic(position: Position, move: ChessMove): string {
+  const next = applyMove(position, move);
+  const suffix = getCheckSuffix(next);
+
+  if (move.is_castling) {
+    return (move.to_square > move.from_square ? 'O-O' : 'O-O-O') + suffix;
+  }
+
+  const pieceType = position.board[move.from_square] & 7;
+  const isCapture = move.captured_piece !== EMPTY || move.is_en_passant;
+  const letter = SAN_PIECE_LETTERS[pieceType] ?? '';
+  const promotion = move.promotion !== 0 ? `=${SAN_PIECE_LETTERS[move.promotion]}` : '';
+
+  return `${letter}${squareToNotation(move.from_square)}${isCapture ? 'x' : '-'}${squareToNotation(move.to_square)}${promotion}${suffix}`;
+}
+
+const FIGURINES: Record<string, [string, string]> = {
+  K: ['\u2654', '\u265A'],
+  Q: ['\u2655', '\u265B'],
+  R: ['\u2656', '\u265C'],
+  B: ['\u2657', '\u265D'],
+  N: ['\u2658', '\u265E'],
+};
+
+// SAN with piece letters replaced by figurines in the mover's color
+export function moveToFigurine(position: Position, move: ChessMove): string {
+  const isWhite = (position.board[move.from_square] & 8) === WHITE;
+  return moveToSAN(position, move).replace(/[KQRBN]/g, letter => FIGURINES[letter][isWhite ? 0 : 1]);
+}
+
+export function formatMove(position: Position, move: ChessMove, style: NotationStyle): string {
+  switch (style) {
+    case 'long': return moveToLongAlgebraic(position, move);
+    case 'figurine': return moveToFigurine(position, move);
+    default: return moveToSAN(position, move);
+  }
+}
+
+// Format a sequence of moves played from `start` (the initial position by
+// default)
+export function formatMoves(
+  moves: ChessMove[],
+  style: NotationStyle,
+  start: Position = getInitialPosition()
+): string[] {
+  let position = start;
+
+  return moves.map(move => {
+    const text = formatMove(position, move, style);
+    position = applyMove(position, move);
+    return text;
+  });
+}
+
+export function movesToSAN(moves: ChessMove[]): string[] {
+  return formatMoves(moves, 'san');
+}
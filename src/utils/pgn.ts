@@ -0,0 +1,71 @@
+import { CHESS_MODULE_ADDRESS } from '../../constants';
+import type { GameState, GameStatus } from '../types/chess';
+import { movesToSAN } from './notation';
+
+const PGN_RESULTS: Record<GameStatus, string> = {
+  active: '*',
+  white_win: '1-0',
+  black_win: '0-1',
+  draw: '1/2-1/2',
+  stalemate: '1/2-1/2',
+};
+
+const PGN_LINE_WIDTH = 80;
+
+function formatPGNDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}.${month}.${day}`;
+}
+
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+// Wrap movetext tokens to the line width recommended by the PGN standard
+function wrapMovetext(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > PGN_LINE_WIDTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines.join('\n');
+}
+
+export function toPGN(gameState: GameState, playerAddress: string, date: Date = new Date()): string {
+  const result = PGN_RESULTS[gameState.status];
+
+  const tags: [string, string][] = [
+    ['Event', 'Chess on Movement'],
+    ['Site', 'Movement'],
+    ['Date', formatPGNDate(date)],
+    ['Round', '-'],
+    ['White', playerAddress],
+    ['Black', 'AI'],
+    ['Result', result],
+    ['Module', `${CHESS_MODULE_ADDRESS}::chess`],
+    ['PlyCount', String(gameState.moves.length)],
+  ];
+
+  const tokens: string[] = [];
+  movesToSAN(gameState.moves).forEach((san, idx) => {
+    if (idx % 2 === 0) tokens.push(`${idx / 2 + 1}.`);
+    tokens.push(san);
+  });
+  tokens.push(result);
+
+  const header = tags.map(([name, value]) => `[${name} "${escapeTagValue(value)}"]`).join('\n');
+  return `${header}\n\n${wrapMovetext(tokens)}\n`;
+}
+
+export function getPGNFilename(playerAddress: string, date: Date = new Date()): string {
+  return `chess-${playerAddress.slice(0, 8)}-${formatPGNDate(date).replace(/\./g, '')}.pgn`;
+}
@@ -0,0 +1,116 @@
+import {
+  EMPTY, PAWN, KNIGHT, BISHOP, ROOK, QUEEN, KING,
+  WHITE, BLACK, HAS_MOVED, NO_SQUARE,
+} from '../types/chess';
+import type { ChessMove, Position } from '../types/chess';
+
+// Starting position, matching init_board in the contract
+export const INITIAL_BOARD: number[] = [
+  WHITE | ROOK, WHITE | KNIGHT, WHITE | BISHOP, WHITE | QUEEN,
+  WHITE | KING, WHITE | BISHOP, WHITE | KNIGHT, WHITE | ROOK,
+  ...new Array(8).fill(WHITE | PAWN),
+  ...new Array(32).fill(EMPTY),
+  ...new Array(8).fill(BLACK | PAWN),
+  BLACK | ROOK, BLACK | KNIGHT, BLACK | BISHOP, BLACK | QUEEN,
+  BLACK | KING, BLACK | BISHOP, BLACK | KNIGHT, BLACK | ROOK,
+];
+
+export function getInitialPosition(): Position {
+  return {
+    board: [...INITIAL_BOARD],
+    isWhiteTurn: true,
+    whiteKingPos: 4,
+    blackKingPos: 60,
+    enPassantSquare: NO_SQUARE,
+  };
+}
+
+// The Move record execute_validated_move stores for from -> to
+export function createMove(position: Position, from: number, to: number, promotion: number): ChessMove {
+  const pieceType = position.board[from] & 7;
+  const captured = position.board[to] & 7;
+  const isEnPassant = pieceType === PAWN && to % 8 !== from % 8 && captured === EMPTY;
+
+  return {
+    from_square: from,
+    to_square: to,
+    promotion,
+    captured_piece: isEnPassant ? PAWN : captured,
+    is_castling: pieceType === KING && Math.abs((from % 8) - (to % 8)) === 2,
+    is_en_passant: isEnPassant,
+  };
+}
+
+// Apply a recorded move to a position, mirroring the board updates in
+// execute_validated_move. The move is assumed to be legal.
+export function applyMove(position: Position, move: ChessMove): Position {
+  const board = [...position.board];
+  const from = move.from_square;
+  const to = move.to_square;
+  const piece = board[from];
+  const pieceType = piece & 7;
+  const color = piece & 8;
+  const isWhite = color === WHITE;
+
+  const isCastling = pieceType === KING && Math.abs((from % 8) - (to % 8)) === 2;
+  const isEnPassant = pieceType === PAWN && to % 8 !== from % 8 && (board[to] & 7) === EMPTY;
+
+  board[from] = EMPTY;
+  board[to] = move.promotion !== 0 && pieceType === PAWN
+    ? color | move.promotion | HAS_MOVED
+    : piece | HAS_MOVED;
+
+  // Castling - move the rook
+  if (isCastling) {
+    const row = Math.floor(from / 8);
+    const rookFrom = to > from ? row * 8 + 7 : row * 8;
+    const rookTo = to > from ? row * 8 + 5 : row * 8 + 3;
+    board[rookTo] = board[rookFrom] | HAS_MOVED;
+    board[rookFrom] = EMPTY;
+  }
+
+  // En passant - remove the captured pawn
+  if (isEnPassant) {
+    board[isWhite ? to - 8 : to + 8] = EMPTY;
+  }
+
+  const isDoublePush = pieceType === PAWN && Math.abs(Math.floor(from / 8) - Math.floor(to / 8)) === 2;
+
+  return {
+    board,
+    isWhiteTurn: !isWhite,
+    whiteKingPos: pieceType === KING && isWhite ? to : position.whiteKingPos,
+    blackKingPos: pieceType === KING && !isWhite ? to : position.blackKingPos,
+    enPassantSquare: isDoublePush ? (from + to) / 2 : NO_SQUARE,
+  };
+}
+
+// Half-move clock after `move`, following the contract's reset rule
+function nextHalfMoveClock(position: Position, move: ChessMove, halfMoveClock: number): number {
+  const pieceType = position.board[move.from_square] & 7;
+  return pieceType === PAWN || move.captured_piece !== EMPTY ? 0 : halfMoveClock + 1;
+}
+
+// Replay a move list from the initial position
+export function replayMoves(moves: ChessMove[]): { position: Position; halfMoveClock: number } {
+  let position = getInitialPosition();
+  let halfMoveClock = 0;
+
+  for (const move of moves) {
+    halfMoveClock = nextHalfMoveClock(position, move, halfMoveClock);
+    position = applyMove(position, move);
+  }
+
+  return { position, halfMoveClock };
+}
+
+// Positions before the first move and after every move (index = ply)
+export function replayPositions(moves: ChessMove[]): Position[] {
+  const positions = [getInitialPosition()];
+
+  for (const move of moves) {
+    positions.push(applyMove(positions[positions.length - 1], move));
+  }
+
+  return positions;
+}
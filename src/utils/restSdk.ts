@@ -0,0 +1,34 @@
+import type { ChessSDK, ViewRequest } from '../types/sdk';
+
+// Read-only ChessSDK backed by the fullnode's /view endpoint, so games and the
+// leaderboard can be shown without a wallet. Transactions are rejected.
+export function createRestChessSDK(nodeUrl: string): ChessSDK {
+  const baseUrl = nodeUrl.replace(/\/+$/, '');
+
+  async function view(request: ViewRequest): Promise<unknown> {
+    const response = await fetch(`${baseUrl}/view`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        function: request.function,
+        type_arguments: request.type_arguments,
+        arguments: request.function_arguments,
+      }),
+    });
+
+    const body: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      // The node reports aborts and bad arguments as { message, vm_error_code }
+      const message = body && typeof body === 'object' ? (body as Record<string, unknown>).message : null;
+      throw new Error(typeof message === 'string' ? message : `View request failed with HTTP ${response.status}`);
+    }
+
+    return body;
+  }
+
+  async function sendTransaction(): Promise<unknown> {
+    throw new Error('Connect a wallet to send transactions');
+  }
+
+  return { view, sendTransaction };
+}
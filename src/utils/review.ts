@@ -0,0 +1,119 @@
+import { isMateScore, scoreToPawns } from './engine';
+import type { ChessMove, GameStatus } from '../types/chess';
+import type { Analysis } from '../types/engine';
+import type {
+  GameReview,
+  MoveClassification,
+  ReviewedMove,
+  SideSummary,
+} from '../types/review';
+
+// Evaluations are clamped so a mate counts as a large but finite advantage
+const MATE_CENTIPAWNS = 1500;
+
+// Upper bound of centipawn loss for each label (anything above is a blunder)
+const CLASSIFICATION_LIMITS: [MoveClassification, number][] = [
+  ['best', 10],
+  ['good', 50],
+  ['inaccuracy', 100],
+  ['mistake', 300],
+];
+
+const CRITICAL_MOMENT_LIMIT = 5;
+
+// Engine score as centipawns from white's side
+export function scoreToCentipawns(score: number): number {
+  if (isMateScore(score)) return scoreToPawns(score) > 0 ? MATE_CENTIPAWNS : -MATE_CENTIPAWNS;
+  return Math.max(-MATE_CENTIPAWNS, Math.min(MATE_CENTIPAWNS, Math.round(scoreToPawns(score) * 100)));
+}
+
+export function classifyMove(loss: number, isEngineMove: boolean): MoveClassification {
+  if (isEngineMove) return 'best';
+  for (const [label, limit] of CLASSIFICATION_LIMITS) {
+    if (loss <= limit) return label;
+  }
+  return 'blunder';
+}
+
+// Expected score (0-100) for the side with a `centipawns` advantage
+function winPercent(centipawns: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * centipawns)) - 1);
+}
+
+// Per-move accuracy from the drop in winning chances, averaged per side
+function moveAccuracy(moverBefore: number, moverAfter: number): number {
+  const drop = Math.max(0, winPercent(moverBefore) - winPercent(moverAfter));
+  return Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * drop) - 3.1669));
+}
+
+function sameMove(a: ChessMove, b: ChessMove | null): boolean {
+  return !!b && a.from_square === b.from_square && a.to_square === b.to_square && a.promotion === b.promotion;
+}
+
+function summarize(moves: ReviewedMove[], accuracies: number[]): SideSummary {
+  const counts: Record<MoveClassification, number> = {
+    best: 0,
+    good: 0,
+    inaccuracy: 0,
+    mistake: 0,
+    blunder: 0,
+  };
+  moves.forEach(m => counts[m.classification]++);
+
+  const accuracy = accuracies.length > 0
+    ? accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length
+    : 100;
+
+  return { accuracy: Math.round(accuracy * 10) / 10, counts };
+}
+
+// Build the review from the analysis of every position in the game:
+// analyses[i] is the position before ply i, analyses[moves.length] the final one.
+export function buildReview(moves: ChessMove[], analyses: Analysis[], status: GameStatus): GameReview {
+  const evaluations = analyses.map(a => scoreToCentipawns(a.score));
+
+  // Draws end the game regardless of material on the board
+  if (status === 'draw' || status === 'stalemate') {
+    evaluations[moves.length] = 0;
+  }
+
+  const reviewed: ReviewedMove[] = [];
+  const accuracies: { white: number[]; black: number[] } = { white: [], black: [] };
+
+  moves.forEach((move, ply) => {
+    const isWhite = ply % 2 === 0;
+    const sign = isWhite ? 1 : -1;
+    const before = evaluations[ply];
+    const after = evaluations[ply + 1];
+    const bestMove = analyses[ply].pv[0] ?? null;
+
+    const loss = Math.max(0, sign * (before - after));
+    const classification = classifyMove(loss, sameMove(move, bestMove));
+
+    reviewed.push({
+      ply,
+      move,
+      isWhite,
+      classification,
+      evalBefore: before,
+      evalAfter: after,
+      loss,
+      bestMove,
+    });
+    (isWhite ? accuracies.white : accuracies.black).push(moveAccuracy(sign * before, sign * after));
+  });
+
+  const criticalMoments = reviewed
+    .filter(m => m.classification === 'mistake' || m.classification === 'blunder')
+    .sort((a, b) => b.loss - a.loss)
+    .slice(0, CRITICAL_MOMENT_LIMIT)
+    .sort((a, b) => a.ply - b.ply);
+
+  return {
+    moves: reviewed,
+    evaluations,
+    white: summarize(reviewed.filter(m => m.isWhite), accuracies.white),
+    black: summarize(reviewed.filter(m => !m.isWhite), accuracies.black),
+    criticalMoments,
+  };
+}
@@ -0,0 +1,398 @@
+import {
+  EMPTY, PAWN, KNIGHT, BISHOP, ROOK, QUEEN, KING,
+  WHITE, BLACK, HAS_MOVED, NO_SQUARE,
+} from '../types/chess';
+import type { ChessMove, DrawClaimStatus, GameState, Position } from '../types/chess';
+import { isPromotionMove } from './chess';
+
+// Client-side port of the move validation in move/sources/chess.move.
+// Function names and semantics mirror the contract so that anything
+// accepted here is accepted by make_move.
+
+function absDiff(a: number, b: number): number {
+  return a > b ? a - b : b - a;
+}
+
+// The contract stores the square a pawn skipped over after a double push
+// (last_pawn_double_move). It is not exposed by get_game, so derive it from
+// the last recorded move.
+export function getEnPassantSquare(board: number[], moves: ChessMove[]): number {
+  if (moves.length === 0) return NO_SQUARE;
+
+  const last = moves[moves.length - 1];
+  const piece = board[last.to_square];
+  if ((piece & 7) !== PAWN) return NO_SQUARE;
+  if (absDiff(Math.floor(last.from_square / 8), Math.floor(last.to_square / 8)) !== 2) {
+    return NO_SQUARE;
+  }
+
+  return (last.from_square + last.to_square) / 2;
+}
+
+export function positionFromGameState(gameState: GameState): Position {
+  return {
+    board: gameState.board,
+    isWhiteTurn: gameState.isWhiteTurn,
+    whiteKingPos: gameState.whiteKingPos,
+    blackKingPos: gameState.blackKingPos,
+    enPassantSquare: getEnPassantSquare(gameState.board, gameState.moves),
+  };
+}
+
+// Check if the diagonal path between from and to is clear (exclusive of endpoints)
+export function checkDiagonalPath(board: number[], from: number, to: number): boolean {
+  if (from >= 64 || to >= 64 || from === to) return true;
+
+  const toRow = Math.floor(to / 8);
+  const toCol = to % 8;
+  const rowStep = toRow > Math.floor(from / 8) ? 1 : -1;
+  const colStep = toCol > from % 8 ? 1 : -1;
+
+  let row = Math.floor(from / 8) + rowStep;
+  let col = (from % 8) + colStep;
+
+  while (row !== toRow && col !== toCol) {
+    if (row < 0 || row >= 8 || col < 0 || col >= 8) return true;
+    if ((board[row * 8 + col] & 7) !== EMPTY) return false;
+    row += rowStep;
+    col += colStep;
+  }
+
+  return true;
+}
+
+// Check if the straight line path (horizontal or vertical) between from and to is clear
+export function isLineClear(board: number[], from: number, to: number): boolean {
+  if (from >= 64 || to >= 64 || from === to) return true;
+
+  const fromRow = Math.floor(from / 8);
+  const fromCol = from % 8;
+  const toRow = Math.floor(to / 8);
+  const toCol = to % 8;
+
+  if (fromRow === toRow) {
+    for (let col = Math.min(fromCol, toCol) + 1; col < Math.max(fromCol, toCol); col++) {
+      if ((board[fromRow * 8 + col] & 7) !== EMPTY) return false;
+    }
+  } else if (fromCol === toCol) {
+    for (let row = Math.min(fromRow, toRow) + 1; row < Math.max(fromRow, toRow); row++) {
+      if ((board[row * 8 + fromCol] & 7) !== EMPTY) return false;
+    }
+  }
+
+  return true;
+}
+
+export function isValidKnightMove(from: number, to: number): boolean {
+  const rowDiff = absDiff(Math.floor(from / 8), Math.floor(to / 8));
+  const colDiff = absDiff(from % 8, to % 8);
+  return (rowDiff === 2 && colDiff === 1) || (rowDiff === 1 && colDiff === 2);
+}
+
+export function isValidBishopMove(board: number[], from: number, to: number): boolean {
+  const rowDiff = absDiff(Math.floor(from / 8), Math.floor(to / 8));
+  const colDiff = absDiff(from % 8, to % 8);
+  if (rowDiff !== colDiff || rowDiff === 0) return false;
+  return checkDiagonalPath(board, from, to);
+}
+
+export function isValidRookMove(board: number[], from: number, to: number): boolean {
+  if (Math.floor(from / 8) !== Math.floor(to / 8) && from % 8 !== to % 8) return false;
+  if (from === to) return false;
+  return isLineClear(board, from, to);
+}
+
+export function isValidQueenMove(board: number[], from: number, to: number): boolean {
+  return isValidRookMove(board, from, to) || isValidBishopMove(board, from, to);
+}
+
+export function canAttack(
+  board: number[],
+  from: number,
+  to: number,
+  pieceType: number,
+  isWhite: boolean
+): boolean {
+  switch (pieceType) {
+    case PAWN: {
+      const fromRow = Math.floor(from / 8);
+      const toRow = Math.floor(to / 8);
+      if (absDiff(from % 8, to % 8) !== 1) return false;
+      return isWhite ? toRow === fromRow + 1 : fromRow > 0 && toRow === fromRow - 1;
+    }
+    case KNIGHT:
+      return isValidKnightMove(from, to);
+    case BISHOP:
+      return isValidBishopMove(board, from, to);
+    case ROOK:
+      return isValidRookMove(board, from, to);
+    case QUEEN:
+      return isValidQueenMove(board, from, to);
+    case KING: {
+      const rowDiff = absDiff(Math.floor(from / 8), Math.floor(to / 8));
+      const colDiff = absDiff(from % 8, to % 8);
+      return rowDiff <= 1 && colDiff <= 1 && rowDiff + colDiff > 0;
+    }
+    default:
+      return false;
+  }
+}
+
+export function isSquareAttacked(board: number[], square: number, byWhite: boolean): boolean {
+  const attackerColor = byWhite ? WHITE : BLACK;
+
+  for (let i = 0; i < 64; i++) {
+    const piece = board[i];
+    const pieceType = piece & 7;
+    if (pieceType !== EMPTY && (piece & 8) === attackerColor) {
+      if (canAttack(board, i, square, pieceType, byWhite)) return true;
+    }
+  }
+
+  return false;
+}
+
+function isValidPawnMove(
+  position: Position,
+  from: number,
+  to: number,
+  promotion: number,
+  isWhite: boolean
+): boolean {
+  const { board } = position;
+  const fromRow = Math.floor(from / 8);
+  const fromCol = from % 8;
+  const toRow = Math.floor(to / 8);
+  const toCol = to % 8;
+  const targetEmpty = (board[to] & 7) === EMPTY;
+
+  // Check promotion validity
+  const promoRow = isWhite ? 7 : 0;
+  if (toRow === promoRow) {
+    if (promotion !== QUEEN && promotion !== ROOK && promotion !== BISHOP && promotion !== KNIGHT) {
+      return false;
+    }
+  } else if (promotion !== 0) {
+    return false;
+  }
+
+  const forward = isWhite ? 1 : -1;
+  const startRow = isWhite ? 1 : 6;
+
+  // Single push forward
+  if (toCol === fromCol && toRow === fromRow + forward && targetEmpty) return true;
+
+  // Double push from start
+  if (fromRow === startRow && toCol === fromCol && toRow === fromRow + 2 * forward && targetEmpty) {
+    if ((board[from + 8 * forward] & 7) === EMPTY) return true;
+  }
+
+  // Capture diagonally, including en passant
+  if (toRow === fromRow + forward && absDiff(toCol, fromCol) === 1) {
+    if (!targetEmpty) return true;
+    if (to === position.enPassantSquare) return true;
+  }
+
+  return false;
+}
+
+export function isValidCastling(
+  position: Position,
+  from: number,
+  to: number,
+  isWhite: boolean
+): boolean {
+  const { board } = position;
+
+  // King must not have moved
+  if ((board[from] & HAS_MOVED) !== 0) return false;
+
+  const row = Math.floor(from / 8);
+  const isKingside = to > from;
+  const rookPos = row * 8 + (isKingside ? 7 : 0);
+  const rook = board[rookPos];
+
+  // Rook must exist and not have moved
+  if ((rook & 7) !== ROOK || (rook & HAS_MOVED) !== 0) return false;
+
+  // Check path is clear
+  const start = isKingside ? from + 1 : rookPos + 1;
+  const end = isKingside ? rookPos : from;
+  for (let sq = start; sq < end; sq++) {
+    if ((board[sq] & 7) !== EMPTY) return false;
+  }
+
+  // King cannot be in check, pass through check or end in check
+  const middle = isKingside ? from + 1 : from - 1;
+  if (isSquareAttacked(board, from, !isWhite)) return false;
+  if (isSquareAttacked(board, middle, !isWhite)) return false;
+  if (isSquareAttacked(board, to, !isWhite)) return false;
+
+  return true;
+}
+
+function isValidKingMove(position: Position, from: number, to: number, isWhite: boolean): boolean {
+  const rowDiff = absDiff(Math.floor(from / 8), Math.floor(to / 8));
+  const colDiff = absDiff(from % 8, to % 8);
+
+  // Normal king move
+  if (rowDiff <= 1 && colDiff <= 1 && rowDiff + colDiff > 0) return true;
+
+  // Castling
+  if (rowDiff === 0 && colDiff === 2) return isValidCastling(position, from, to, isWhite);
+
+  return false;
+}
+
+export function wouldBeInCheck(
+  position: Position,
+  from: number,
+  to: number,
+  isWhite: boolean
+): boolean {
+  // Simulate the move on a copy of the board
+  const tempBoard = [...position.board];
+  const piece = tempBoard[from];
+  const pieceType = piece & 7;
+
+  tempBoard[from] = EMPTY;
+  tempBoard[to] = piece;
+
+  // Handle en passant capture
+  if (pieceType === PAWN && to % 8 !== from % 8) {
+    if ((position.board[to] & 7) === EMPTY && to === position.enPassantSquare) {
+      tempBoard[isWhite ? to - 8 : to + 8] = EMPTY;
+    }
+  }
+
+  let kingPos = isWhite ? position.whiteKingPos : position.blackKingPos;
+  if (pieceType === KING) kingPos = to;
+
+  return isSquareAttacked(tempBoard, kingPos, !isWhite);
+}
+
+// Whether the piece on `from` can make the move, ignoring what it does to the
+// mover's own king
+export function isPseudoLegalMove(
+  position: Position,
+  from: number,
+  to: number,
+  promotion: number,
+  isWhite: boolean
+): boolean {
+  const { board } = position;
+  if (from < 0 || from >= 64 || to < 0 || to >= 64) return false;
+
+  const piece = board[from];
+  const pieceType = piece & 7;
+  if (pieceType === EMPTY) return false;
+  if ((piece & 8) !== (isWhite ? WHITE : BLACK)) return false;
+
+  // Check basic piece movement
+  let basicValid = false;
+  switch (pieceType) {
+    case PAWN:
+      basicValid = isValidPawnMove(position, from, to, promotion, isWhite);
+      break;
+    case KNIGHT:
+      basicValid = isValidKnightMove(from, to);
+      break;
+    case BISHOP:
+      basicValid = isValidBishopMove(board, from, to);
+      break;
+    case ROOK:
+      basicValid = isValidRookMove(board, from, to);
+      break;
+    case QUEEN:
+      basicValid = isValidQueenMove(board, from, to);
+      break;
+    case KING:
+      basicValid = isValidKingMove(position, from, to, isWhite);
+      break;
+  }
+  if (!basicValid) return false;
+
+  // Target square can't hold a friendly piece
+  const target = board[to];
+  return (target & 7) === EMPTY || (target & 8) !== (piece & 8);
+}
+
+export function isValidMove(
+  position: Position,
+  from: number,
+  to: number,
+  promotion: number,
+  isWhite: boolean
+): boolean {
+  // King can't be left in check
+  return isPseudoLegalMove(position, from, to, promotion, isWhite) && !wouldBeInCheck(position, from, to, isWhite);
+}
+
+// Destination squares the piece on `from` can legally move to. Promotions
+// are checked as queen promotions, like has_any_legal_move in the contract.
+export function getLegalSquares(position: Position, from: number): number[] {
+  const piece = position.board[from];
+  if ((piece & 7) === EMPTY) return [];
+
+  const isWhite = (piece & 8) === WHITE;
+  const legalSquares: number[] = [];
+
+  for (let to = 0; to < 64; to++) {
+    const promotion = isPromotionMove(position.board, from, to) ? QUEEN : 0;
+    if (isValidMove(position, from, to, promotion, isWhite)) {
+      legalSquares.push(to);
+    }
+  }
+
+  return legalSquares;
+}
+
+export function hasAnyLegalMove(position: Position, isWhite: boolean): boolean {
+  const color = isWhite ? WHITE : BLACK;
+
+  for (let from = 0; from < 64; from++) {
+    const piece = position.board[from];
+    if ((piece & 7) !== EMPTY && (piece & 8) === color) {
+      if (getLegalSquares(position, from).length > 0) return true;
+    }
+  }
+
+  return false;
+}
+
+export function isKingInCheck(position: Position, isWhite: boolean): boolean {
+  const kingPos = isWhite ? position.whiteKingPos : position.blackKingPos;
+  return isSquareAttacked(position.board, kingPos, !isWhite);
+}
+
+// Mirrors is_insufficient_material: only bare kings, or a single minor piece
+// against a bare king, count as insufficient
+export function isInsufficientMaterial(board: number[]): boolean {
+  let whiteMinor = 0;
+  let blackMinor = 0;
+
+  for (const piece of board) {
+    const pieceType = piece & 7;
+    if (pieceType === PAWN || pieceType === ROOK || pieceType === QUEEN) return false;
+    if (pieceType === KNIGHT || pieceType === BISHOP) {
+      if ((piece & 8) === WHITE) whiteMinor++;
+      else blackMinor++;
+    }
+  }
+
+  return whiteMinor + blackMinor <= 1;
+}
+
+// Half-moves without a capture or pawn move before the 50-move rule applies
+export const FIFTY_MOVE_HALF_MOVES = 100;
+
+// Mirrors the check in claim_draw
+export function getDrawClaimStatus(board: number[], halfMoveClock: number): DrawClaimStatus {
+  const insufficient = isInsufficientMaterial(board);
+  return {
+    canClaim: halfMoveClock >= FIFTY_MOVE_HALF_MOVES || insufficient,
+    halfMoveClock,
+    halfMovesRemaining: Math.max(0, FIFTY_MOVE_HALF_MOVES - halfMoveClock),
+    isInsufficientMaterial: insufficient,
+  };
+}
@@ -0,0 +1,118 @@
+import type { GameStatus, LeaderboardEntry, ScoringState } from '../types/chess';
+
+// Port of the scoring in finalize_game (move/sources/chess.move). moveCount
+// is the game's move_count, i.e. plies played by both sides.
+
+export const WIN_BASE_POINTS = 25;
+export const LOSS_PENALTY = 5;
+export const DRAW_POINTS = 10;
+
+export const INITIAL_SCORING_STATE: ScoringState = {
+  totalPoints: 0,
+  currentStreak: 0,
+  bestStreak: 0,
+  fastestWinMoves: 0,
+};
+
+// Up to +15 for quick wins
+export function fastWinBonus(moveCount: number): number {
+  if (moveCount < 30) return 15;
+  if (moveCount < 50) return 10;
+  if (moveCount < 80) return 5;
+  return 0;
+}
+
+// +2 per consecutive win including this one, capped at +10
+export function streakBonus(streak: number): number {
+  return streak > 5 ? 10 : streak * 2;
+}
+
+// Stats after finalize_game records a game that ended with `status`.
+// Draws leave the win streak alone, as in the contract.
+export function applyGameResult(state: ScoringState, status: GameStatus, moveCount: number): ScoringState {
+  switch (status) {
+    case 'white_win': {
+      const currentStreak = state.currentStreak + 1;
+      return {
+        totalPoints: state.totalPoints + WIN_BASE_POINTS + fastWinBonus(moveCount) + streakBonus(currentStreak),
+        currentStreak,
+        bestStreak: Math.max(state.bestStreak, currentStreak),
+        fastestWinMoves: state.fastestWinMoves === 0 || moveCount < state.fastestWinMoves
+          ? moveCount
+          : state.fastestWinMoves,
+      };
+    }
+    case 'black_win':
+      // Points can't go below 0
+      return { ...state, totalPoints: Math.max(0, state.totalPoints - LOSS_PENALTY), currentStreak: 0 };
+    case 'draw':
+    case 'stalemate':
+      return { ...state, totalPoints: state.totalPoints + DRAW_POINTS };
+    default:
+      return state;
+  }
+}
+
+// Change in total points if the game ended now with `status`
+export function pointsForResult(state: ScoringState, status: GameStatus, moveCount: number): number {
+  return applyGameResult(state, status, moveCount).totalPoints - state.totalPoints;
+}
+
+export const LEADERBOARD_SIZE = 100;
+
+// Port of update_leaderboard: a full board only admits players who beat the
+// lowest entry, and the bubble sort keeps earlier entries ahead on ties
+export function updateLeaderboard(
+  topPlayers: string[],
+  playerPoints: number[],
+  player: string,
+  points: number
+): { topPlayers: string[]; playerPoints: number[] } {
+  const players = [...topPlayers];
+  const scores = [...playerPoints];
+  const idx = players.indexOf(player);
+
+  if (idx >= 0) {
+    scores[idx] = points;
+  } else if (players.length < LEADERBOARD_SIZE) {
+    players.push(player);
+    scores.push(points);
+  } else {
+    // Replace the lowest entry (first one on ties) if the player beats it
+    let minIdx = 0;
+    for (let i = 1; i < scores.length; i++) {
+      if (scores[i] < scores[minIdx]) minIdx = i;
+    }
+    if (points > scores[minIdx]) {
+      players[minIdx] = player;
+      scores[minIdx] = points;
+    }
+  }
+
+  for (let i = 0; i < players.length - 1; i++) {
+    for (let j = 0; j < players.length - 1 - i; j++) {
+      if (scores[j + 1] > scores[j]) {
+        [scores[j], scores[j + 1]] = [scores[j + 1], scores[j]];
+        [players[j], players[j + 1]] = [players[j + 1], players[j]];
+      }
+    }
+  }
+
+  return { topPlayers: players, playerPoints: scores };
+}
+
+// Rank `player` would hold with `points`, or null if they'd miss the board
+export function projectRank(entries: LeaderboardEntry[], player: string, points: number): number | null {
+  // Match the leaderboard's spelling of the address
+  const existing = entries.find(entry => entry.address.toLowerCase() === player.toLowerCase());
+  const address = existing?.address ?? player;
+
+  const { topPlayers } = updateLeaderboard(
+    entries.map(entry => entry.address),
+    entries.map(entry => entry.points),
+    address,
+    points
+  );
+  const idx = topPlayers.indexOf(address);
+  return idx >= 0 ? idx + 1 : null;
+}
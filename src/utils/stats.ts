@@ -0,0 +1,116 @@
+import { getArchiveResult } from './archive';
+import { movesToSAN } from './notation';
+import { applyGameResult, INITIAL_SCORING_STATE } from './scoring';
+import type { ArchivedGame } from '../types/archive';
+import type { ArchiveStats, OpeningStats, PointsTimelineEntry, ResultCounts, ResultsByDay } from '../types/stats';
+
+// Plies that make up an "opening" for the win rate table
+const OPENING_PLIES = 4;
+const MAX_OPENINGS = 10;
+
+function emptyCounts(): ResultCounts {
+  return { won: 0, lost: 0, drawn: 0 };
+}
+
+function winRate(counts: ResultCounts): number {
+  const played = counts.won + counts.lost + counts.drawn;
+  return played > 0 ? counts.won / played : 0;
+}
+
+function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function formatOpening(san: string[]): string {
+  return san
+    .map((move, ply) => (ply % 2 === 0 ? `${ply / 2 + 1}. ${move}` : move))
+    .join(' ');
+}
+
+// Most played first, then by win rate
+function rankOpenings(groups: Map<string, ResultCounts>): OpeningStats[] {
+  return Array.from(groups, ([moves, counts]) => ({
+    moves,
+    ...counts,
+    played: counts.won + counts.lost + counts.drawn,
+    winRate: winRate(counts),
+  }))
+    .sort((a, b) => b.played - a.played || b.winRate - a.winRate)
+    .slice(0, MAX_OPENINGS);
+}
+
+// Analytics over the finished games in the local archive. Games replaced
+// mid-play never reached finalize_game, so they are left out.
+export function buildArchiveStats(games: ArchivedGame[]): ArchiveStats {
+  const finished = games
+    .filter(game => getArchiveResult(game) !== 'unfinished')
+    .sort((a, b) => a.archivedAt - b.archivedAt);
+
+  const totals = emptyCounts();
+  const lengthTotals = emptyCounts();
+  const days = new Map<string, ResultsByDay>();
+  const openings = new Map<string, ResultCounts>();
+  const firstMoves = new Map<string, ResultCounts>();
+  const pointsTimeline: PointsTimelineEntry[] = [];
+  let scoring = INITIAL_SCORING_STATE;
+  let totalPlies = 0;
+
+  for (const entry of finished) {
+    const result = getArchiveResult(entry) as PointsTimelineEntry['result'];
+    const { moves, status, moveCount } = entry.game;
+
+    totals[result]++;
+    lengthTotals[result] += moves.length;
+    totalPlies += moves.length;
+
+    const date = dayKey(entry.archivedAt);
+    const day = days.get(date) ?? { date, ...emptyCounts() };
+    day[result]++;
+    days.set(date, day);
+
+    const san = movesToSAN(moves.slice(0, OPENING_PLIES));
+    if (san.length > 0) {
+      const opening = formatOpening(san);
+      const openingCounts = openings.get(opening) ?? emptyCounts();
+      openingCounts[result]++;
+      openings.set(opening, openingCounts);
+
+      const firstMoveCounts = firstMoves.get(san[0]) ?? emptyCounts();
+      firstMoveCounts[result]++;
+      firstMoves.set(san[0], firstMoveCounts);
+    }
+
+    const next = applyGameResult(scoring, status, moveCount);
+    pointsTimeline.push({
+      archivedAt: entry.archivedAt,
+      result,
+      delta: next.totalPoints - scoring.totalPoints,
+      totalPoints: next.totalPoints,
+      streak: next.currentStreak,
+    });
+    scoring = next;
+  }
+
+  // Average length in full moves
+  const average = (plies: number, count: number) => (count > 0 ? plies / count / 2 : 0);
+
+  return {
+    totals: { ...totals, played: finished.length, winRate: winRate(totals) },
+    averageLength: average(totalPlies, finished.length),
+    averageLengthByResult: {
+      won: average(lengthTotals.won, totals.won),
+      lost: average(lengthTotals.lost, totals.lost),
+      drawn: average(lengthTotals.drawn, totals.drawn),
+    },
+    resultsByDay: Array.from(days.values()),
+    pointsTimeline,
+    openings: rankOpenings(openings),
+    firstMoves: rankOpenings(firstMoves),
+    currentStreak: scoring.currentStreak,
+    bestStreak: scoring.bestStreak,
+    fastestWinMoves: scoring.fastestWinMoves,
+  };
+}
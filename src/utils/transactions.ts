@@ -0,0 +1,108 @@
+import { CHESS_NETWORK, EXPLORER_TX_URLS, USE_LOCAL_SIMULATOR } from '../../constants';
+import type { TransactionObserver } from './contract';
+import type { TransactionResult } from '../types/chess';
+import type { TrackedTransaction, TransactionKind } from '../types/transactions';
+
+const STORAGE_KEY = 'chess:transactions';
+const MAX_TRANSACTIONS = 100;
+
+type Listener = () => void;
+
+// Records every transaction submitted through ChessContractClient for the
+// current browser session. Newest first; persisted in sessionStorage so a
+// reload doesn't lose the trail.
+export class TransactionTracker implements TransactionObserver {
+  private transactions: TrackedTransaction[] = [];
+  private listeners = new Set<Listener>();
+  private loaded = false;
+  private nextId = 1;
+
+  constructor(private readonly network: string) {}
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): TrackedTransaction[] => {
+    this.load();
+    return this.transactions;
+  };
+
+  onSubmitted(kind: TransactionKind, args: unknown[], notation: string | null): string {
+    this.load();
+    const id = `${Date.now().toString(36)}-${this.nextId++}`;
+
+    const tx: TrackedTransaction = {
+      id,
+      kind,
+      args,
+      notation,
+      network: this.network,
+      state: 'submitted',
+      hash: null,
+      gasUsed: null,
+      error: null,
+      submittedAt: Date.now(),
+      settledAt: null,
+    };
+    this.update([tx, ...this.transactions].slice(0, MAX_TRANSACTIONS));
+
+    return id;
+  }
+
+  onConfirmed(id: string, result: TransactionResult) {
+    this.settle(id, { state: 'confirmed', hash: result.hash, gasUsed: result.gasUsed });
+  }
+
+  onFailed(id: string, error: unknown) {
+    this.settle(id, { state: 'failed', error: error instanceof Error ? error.message : String(error) });
+  }
+
+  clear() {
+    this.update([]);
+  }
+
+  private settle(id: string, changes: Partial<TrackedTransaction>) {
+    this.update(this.transactions.map(tx => (tx.id === id ? { ...tx, ...changes, settledAt: Date.now() } : tx)));
+  }
+
+  private update(transactions: TrackedTransaction[]) {
+    this.transactions = transactions;
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load() {
+    if (this.loaded || typeof window === 'undefined') return;
+    this.loaded = true;
+
+    try {
+      const raw = window.sessionStorage.getItem(STORAGE_KEY);
+      if (!raw) return;
+      const saved = JSON.parse(raw) as TrackedTransaction[];
+      // Anything still "submitted" was cut off by the reload; it may still
+      // have landed, so it isn't marked as failed
+      this.transactions = saved.map(tx => (tx.state === 'submitted' ? { ...tx, state: 'interrupted' } : tx));
+    } catch {
+      // Ignore unreadable history
+    }
+  }
+
+  private save() {
+    if (typeof window === 'undefined') return;
+    try {
+      window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(this.transactions));
+    } catch {
+      // Storage full or unavailable - keep the in-memory list
+    }
+  }
+}
+
+export const transactionTracker = new TransactionTracker(USE_LOCAL_SIMULATOR ? 'simulator' : CHESS_NETWORK);
+
+// Explorer page for a transaction, or null when the network has none configured
+export function getExplorerUrl(hash: string, network: string): string | null {
+  const template = EXPLORER_TX_URLS[network];
+  return template ? template.replace('{hash}', hash) : null;
+}
@@ -0,0 +1,101 @@
+import { CHESS_MODULE_ADDRESS, CHESS_NETWORK } from '../../constants';
+import { decodePiece, squareToNotation } from './chess';
+import { replayMoves } from './replay';
+import { HAS_MOVED } from '../types/chess';
+import type { ChessMove, GameView } from '../types/chess';
+import type { BoardDiagnostic, ProblemReport, SquareMismatch } from '../types/diagnostics';
+
+export function describeSquare(code: number | null): string {
+  if (code === null) return 'nothing';
+  const piece = decodePiece(code);
+  return piece ? `${piece.color} ${piece.type}` : 'empty';
+}
+
+function describeMismatch(expected: number, actual: number | null): string {
+  if (actual === null) return 'square missing from the board';
+  if ((expected & ~HAS_MOVED) === (actual & ~HAS_MOVED)) {
+    return `${describeSquare(actual)} is marked as ${actual & HAS_MOVED ? 'moved' : 'unmoved'}, the moves say otherwise`;
+  }
+  return `expected ${describeSquare(expected)}, found ${describeSquare(actual)}`;
+}
+
+// Replay the move list from the initial position and compare the result
+// with the board and king squares get_game returned
+export function verifyBoard(game: GameView, moves: ChessMove[]): BoardDiagnostic {
+  const diagnostic: BoardDiagnostic = {
+    plies: moves.length,
+    boardLength: game.board.length,
+    squares: [],
+    kings: [],
+    replayError: null,
+  };
+
+  let position;
+  try {
+    position = replayMoves(moves).position;
+  } catch (err) {
+    diagnostic.replayError = err instanceof Error ? err.message : String(err);
+    return diagnostic;
+  }
+
+  const squares: SquareMismatch[] = [];
+  for (let square = 0; square < 64; square++) {
+    const expected = position.board[square];
+    const actual = square < game.board.length ? game.board[square] : null;
+    if (actual !== expected) {
+      squares.push({ square, expected, actual, reason: describeMismatch(expected, actual) });
+    }
+  }
+  diagnostic.squares = squares;
+
+  if (game.whiteKingPos !== position.whiteKingPos) {
+    diagnostic.kings.push({ color: 'white', expected: position.whiteKingPos, actual: game.whiteKingPos });
+  }
+  if (game.blackKingPos !== position.blackKingPos) {
+    diagnostic.kings.push({ color: 'black', expected: position.blackKingPos, actual: game.blackKingPos });
+  }
+
+  return diagnostic;
+}
+
+export function isBoardConsistent(diagnostic: BoardDiagnostic): boolean {
+  return (
+    diagnostic.replayError === null &&
+    diagnostic.boardLength === 64 &&
+    diagnostic.squares.length === 0 &&
+    diagnostic.kings.length === 0
+  );
+}
+
+// One line for logs and error messages
+export function summarizeDiagnostic(diagnostic: BoardDiagnostic): string {
+  if (diagnostic.replayError) return `the move list could not be replayed (${diagnostic.replayError})`;
+
+  const parts: string[] = [];
+  if (diagnostic.boardLength !== 64) parts.push(`the board has ${diagnostic.boardLength} squares`);
+  if (diagnostic.squares.length > 0) {
+    const names = diagnostic.squares.slice(0, 4).map(mismatch => squareToNotation(mismatch.square));
+    const more = diagnostic.squares.length > names.length ? ` and ${diagnostic.squares.length - names.length} more` : '';
+    parts.push(`${names.join(', ')}${more} ${diagnostic.squares.length === 1 ? 'differs' : 'differ'} from the moves`);
+  }
+  for (const king of diagnostic.kings) {
+    parts.push(`${king.color} king is at ${squareToNotation(king.actual)} instead of ${squareToNotation(king.expected)}`);
+  }
+  return parts.join('; ');
+}
+
+export function buildProblemReport(
+  player: string,
+  diagnostic: BoardDiagnostic,
+  responses: Record<string, unknown>
+): ProblemReport {
+  return {
+    generatedAt: new Date().toISOString(),
+    network: CHESS_NETWORK,
+    moduleAddress: CHESS_MODULE_ADDRESS,
+    player,
+    diagnostic,
+    responses,
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+  };
+}
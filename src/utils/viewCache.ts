@@ -0,0 +1,99 @@
+import type { ChessSDK } from '../types/sdk';
+
+// Results younger than this are served without a view call
+export const DEFAULT_MAX_AGE_MS = 5000;
+
+interface CacheEntry {
+  value: unknown;
+  hasValue: boolean;
+  fetchedAt: number;
+  inFlight: Promise<unknown> | null;
+}
+
+export interface ViewQueryOptions {
+  maxAgeMs?: number;
+  // Skip the cached value, still sharing a request already in flight
+  fresh?: boolean;
+}
+
+type CacheListener = (key: string) => void;
+
+// View responses keyed by function and arguments, with stale-while-revalidate
+// reads: a stale value is returned at once and refetched in the background,
+// and listeners hear about every value that changes.
+export class ViewCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly listeners = new Set<CacheListener>();
+
+  fetch(key: string, load: () => Promise<unknown>, { maxAgeMs = DEFAULT_MAX_AGE_MS, fresh = false }: ViewQueryOptions = {}): Promise<unknown> {
+    const entry = this.entries.get(key);
+
+    if (!fresh && entry?.hasValue) {
+      if (Date.now() - entry.fetchedAt >= maxAgeMs) {
+        this.revalidate(key, load).catch(err => console.warn('[Chess] Background refresh failed:', key, err));
+      }
+      return Promise.resolve(entry.value);
+    }
+
+    return this.revalidate(key, load);
+  }
+
+  // Drop every entry whose key matches; in-flight requests for them are not
+  // stored when they land, since they may predate the change
+  invalidate(match: (key: string) => boolean): void {
+    for (const key of Array.from(this.entries.keys())) {
+      if (match(key)) this.entries.delete(key);
+    }
+  }
+
+  subscribe(listener: CacheListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private revalidate(key: string, load: () => Promise<unknown>): Promise<unknown> {
+    let entry = this.entries.get(key);
+    if (entry?.inFlight) return entry.inFlight;
+
+    if (!entry) {
+      entry = { value: undefined, hasValue: false, fetchedAt: 0, inFlight: null };
+      this.entries.set(key, entry);
+    }
+
+    const target = entry;
+    const request = load().then(
+      value => {
+        target.inFlight = null;
+        if (this.entries.get(key) !== target) return value;
+
+        const changed = !target.hasValue || JSON.stringify(target.value) !== JSON.stringify(value);
+        target.value = value;
+        target.hasValue = true;
+        target.fetchedAt = Date.now();
+        if (changed) this.listeners.forEach(listener => listener(key));
+        return value;
+      },
+      err => {
+        target.inFlight = null;
+        throw err;
+      }
+    );
+
+    target.inFlight = request;
+    return request;
+  }
+}
+
+// One cache per SDK, so every client built on the same wallet shares results
+const caches = new WeakMap<ChessSDK, ViewCache>();
+
+export function getViewCache(sdk: ChessSDK): ViewCache {
+  let cache = caches.get(sdk);
+  if (!cache) {
+    cache = new ViewCache();
+    caches.set(sdk, cache);
+  }
+  return cache;
+}
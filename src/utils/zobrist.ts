@@ -0,0 +1,111 @@
+import { EMPTY, PAWN, ROOK, KING, WHITE, BLACK, HAS_MOVED, NO_SQUARE } from '../types/chess';
+import type { ChessMove, Position, RepetitionStatus } from '../types/chess';
+import { replayPositions } from './replay';
+
+// Zobrist hashing over the contract's board encoding. Keys are 64 bits,
+// kept as two 32-bit halves because the build targets ES2017 (no BigInt).
+// Two positions get the same hash when they have the same pieces, side to
+// move, castling rights and capturable en passant square, which is what
+// counts as "the same position" for repetitions.
+
+type Key = [number, number];
+
+// Fixed seed so hashes are stable across sessions
+const SEED = 0x9e3779b9;
+
+// mulberry32
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+const random = createRandom(SEED);
+const nextKey = (): Key => [random(), random()];
+
+// 12 piece kinds (6 types x 2 colors) on 64 squares
+const PIECE_KEYS: Key[] = Array.from({ length: 12 * 64 }, nextKey);
+// White kingside, white queenside, black kingside, black queenside
+const CASTLING_KEYS: Key[] = Array.from({ length: 4 }, nextKey);
+const EN_PASSANT_KEYS: Key[] = Array.from({ length: 8 }, nextKey);
+const BLACK_TO_MOVE_KEY: Key = nextKey();
+
+// King and rook home squares for each castling right
+const CASTLING_SQUARES: { king: number; rook: number; color: number }[] = [
+  { king: 4, rook: 7, color: WHITE },
+  { king: 4, rook: 0, color: WHITE },
+  { king: 60, rook: 63, color: BLACK },
+  { king: 60, rook: 56, color: BLACK },
+];
+
+function isUnmoved(board: number[], square: number, pieceType: number, color: number): boolean {
+  const piece = board[square];
+  return (piece & 7) === pieceType && (piece & 8) === color && (piece & HAS_MOVED) === 0;
+}
+
+// The en passant square only matters when the side to move can capture on it
+function canCaptureEnPassant(position: Position): boolean {
+  const { board, enPassantSquare, isWhiteTurn } = position;
+  if (enPassantSquare === NO_SQUARE) return false;
+
+  const pawnRow = isWhiteTurn ? 4 : 3;
+  const color = isWhiteTurn ? WHITE : BLACK;
+  const file = enPassantSquare % 8;
+
+  return [file - 1, file + 1].some(f => {
+    if (f < 0 || f > 7) return false;
+    const piece = board[pawnRow * 8 + f];
+    return (piece & 7) === PAWN && (piece & 8) === color;
+  });
+}
+
+export function hashPosition(position: Position): string {
+  let hi = 0;
+  let lo = 0;
+  const mix = ([keyHi, keyLo]: Key) => {
+    hi ^= keyHi;
+    lo ^= keyLo;
+  };
+
+  position.board.forEach((piece, square) => {
+    const pieceType = piece & 7;
+    if (pieceType === EMPTY) return;
+    const kind = pieceType - 1 + ((piece & 8) === BLACK ? 6 : 0);
+    mix(PIECE_KEYS[kind * 64 + square]);
+  });
+
+  CASTLING_SQUARES.forEach(({ king, rook, color }, i) => {
+    if (isUnmoved(position.board, king, KING, color) && isUnmoved(position.board, rook, ROOK, color)) {
+      mix(CASTLING_KEYS[i]);
+    }
+  });
+
+  if (canCaptureEnPassant(position)) mix(EN_PASSANT_KEYS[position.enPassantSquare % 8]);
+  if (!position.isWhiteTurn) mix(BLACK_TO_MOVE_KEY);
+
+  return (hi >>> 0).toString(16).padStart(8, '0') + (lo >>> 0).toString(16).padStart(8, '0');
+}
+
+// How often each position in the game has occurred so far
+export function countRepetitions(moves: ChessMove[]): RepetitionStatus {
+  const hashes = replayPositions(moves).map(hashPosition);
+  const counts: Record<string, number> = {};
+  for (const hash of hashes) counts[hash] = (counts[hash] ?? 0) + 1;
+
+  return {
+    hashes,
+    counts,
+    currentCount: counts[hashes[hashes.length - 1]],
+    maxCount: Math.max(...Object.values(counts)),
+  };
+}
+
+// Occurrences of `position` if the game reached it next
+export function repetitionsAfter(status: RepetitionStatus, position: Position): number {
+  return (status.counts[hashPosition(position)] ?? 0) + 1;
+}
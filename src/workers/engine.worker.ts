@@ -0,0 +1,38 @@
+import { analyzePosition, predictAiReply, suggestWhiteMove } from '../utils/engine';
+import type { EngineRequest, EngineResponse } from '../types/engine';
+
+// Runs the engine search off the main thread. A 3-ply search with
+// quiescence can take a noticeable fraction of a second in busy positions.
+
+function handle(request: EngineRequest): EngineResponse {
+  switch (request.type) {
+    case 'hint':
+      return { id: request.id, type: 'move', move: suggestWhiteMove(request.position) };
+    case 'preview':
+      return {
+        id: request.id,
+        type: 'move',
+        move: predictAiReply(request.position, request.move, request.moveCount),
+      };
+    case 'analyze':
+      return {
+        id: request.id,
+        type: 'analysis',
+        analysis: analyzePosition(request.position, request.depth),
+      };
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<EngineRequest>) => {
+  let response: EngineResponse;
+  try {
+    response = handle(event.data);
+  } catch (err) {
+    response = {
+      id: event.data.id,
+      type: 'error',
+      message: err instanceof Error ? err.message : 'Engine error',
+    };
+  }
+  self.postMessage(response);
+});